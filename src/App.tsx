@@ -1,19 +1,107 @@
 import './App.css';
 import RaceSimulation from './components/RaceSimulation';
 import Buffet2D from './components/2Dbuffet';
-import { useState } from 'react';
+import FoodDistributionControls from './components/FoodDistributionControls';
+import RegrowthControls from './components/RegrowthControls';
+import SocialControls from './components/SocialControls';
+import EnergyControls from './components/EnergyControls';
+import FoodValueControls from './components/FoodValueControls';
+import PerceptionControls from './components/PerceptionControls';
+import PredationControls from './components/PredationControls';
+import AgentControls from './components/AgentControls';
+import EvolutionControls from './components/EvolutionControls';
+import ReplayLoader from './components/ReplayLoader';
+import ExperimentPanel from './components/ExperimentPanel';
+import ScenarioControls from './components/ScenarioControls';
+import EndControls from './components/EndControls';
+import RunHistoryPanel from './components/RunHistoryPanel';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { clampSeed, createRandom, deriveSeed, randomSeed } from './components/buffetrandom';
+import { DEFAULT_STRATEGY_ID, listForagingStrategies, type StrategyId } from './components/buffetstrategies';
+import { DEFAULT_DISTRIBUTION_ID, type FoodDistributionSettings } from './components/buffetfood';
+import { DEFAULT_REGROWTH_ID, type RegrowthSettings } from './components/buffetregrowth';
+import type { EndSettings } from './components/buffetend';
+import type { RaceResult } from './components/buffetresults';
+import { createRunRecord, saveRun, type RunRecord } from './components/buffethistory';
+import type { SocialSettings } from './components/buffetsocial';
+import type { EnergySettings } from './components/buffetenergy';
+import type { FoodValue } from './components/buffetdiet';
+import type { FoodType } from './components/buffetfood';
+import type { PerceptionSettings } from './components/buffetperception';
+import type { PredationSettings } from './components/buffetpredators';
+import { Q_AGENT_ID, createQTable, loadQAgentPolicy, type QTable } from './components/buffetagents';
+import type { Replay } from './components/buffetreplay';
+import type { PhysicsSettings } from './components/buffetplayers';
+import { DEFAULT_MAP_SIZE, MAX_PLAYERS, SCENARIO_VERSION, decodeScenarioHash, encodeScenarioHash, type Scenario } from './components/buffetscenario';
+import {
+  DEFAULT_EVOLUTION_SETTINGS,
+  initialGenomes,
+  nextGeneration,
+  summarizeGeneration,
+  type EvolutionSettings,
+  type GenerationRecord,
+  type Genome,
+} from './components/buffetevolution';
 // import { Canvas } from '@react-three/fiber'; // No longer needed here
 // import { OrbitControls, Box } from '@react-three/drei'; // No longer needed here
 // import * as THREE from 'three'; // No longer needed here
 
 // function MinimalTestScene() { ... } // Remove minimal scene
 
+const EVOLUTION_SEED_SALT = 0x6e0e; // breeding draws come from their own stream
+const EVOLUTION_PAUSE_MS = 4000; // time to look at the results before the next generation races
+const TRAINING_NOTE = 'Wait for Q-agent training to finish; a race would stop it';
+
+// The scenario a shared link opened the page with, if any
+function readLinkedScenario(): { scenario: Scenario | null; error: string | null } {
+  try {
+    return { scenario: decodeScenarioHash(window.location.hash), error: null };
+  } catch (err) {
+    return { scenario: null, error: `Link ignored: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
 function App() {
+  // A shared link seeds the initial state of the top bar
+  const [linked] = useState(readLinkedScenario);
+  const [linkError, setLinkError] = useState<string | null>(linked.error);
+  const initial = linked.scenario;
   // Shared simulation state
   const [mode, setMode] = useState<'3d' | '2d'>('3d');
-  const [playerCount, setPlayerCount] = useState<number>(4);
-  const [foodAmount, setFoodAmount] = useState<number>(100);
-  const [minutes, setMinutes] = useState<number>(1);
+  const [playerCount, setPlayerCount] = useState<number>(initial?.agents.length ?? 4);
+  const [foodAmount, setFoodAmount] = useState<number>(initial?.food.amount ?? 100);
+  const [minutes, setMinutes] = useState<number>(initial?.minutes ?? 1);
+  // One strategy slot per possible player (max 8)
+  const [playerStrategies, setPlayerStrategies] = useState<StrategyId[]>(() =>
+    Array.from({ length: MAX_PLAYERS }, (_, i) => initial?.agents[i]?.strategy ?? DEFAULT_STRATEGY_ID));
+  // Per-player colour and sensing overrides; only scenario files set these
+  const [playerColors, setPlayerColors] = useState<(string | null)[]>(() =>
+    Array.from({ length: MAX_PLAYERS }, (_, i) => initial?.agents[i]?.color ?? null));
+  const [playerPerception, setPlayerPerception] = useState<Partial<PerceptionSettings>[]>(() => initial?.agents.map(agent => agent.perception ?? {}) ?? []);
+  const [mapSize, setMapSize] = useState<number>(initial?.map.size ?? DEFAULT_MAP_SIZE);
+  const [physics, setPhysics] = useState<Partial<PhysicsSettings>>(initial?.map.physics ?? {});
+  const [seed, setSeed] = useState<number>(() => initial?.seed ?? randomSeed());
+  const [foodDistribution, setFoodDistribution] = useState<FoodDistributionSettings>(initial?.food.distribution ?? { id: DEFAULT_DISTRIBUTION_ID });
+  const [regrowth, setRegrowth] = useState<RegrowthSettings>(initial?.food.regrowth ?? { id: DEFAULT_REGROWTH_ID });
+  const [end, setEnd] = useState<Partial<EndSettings>>(initial?.end ?? {});
+  const [social, setSocial] = useState<Partial<SocialSettings>>(initial?.social ?? {});
+  const [energy, setEnergy] = useState<Partial<EnergySettings>>(initial?.energy ?? {});
+  const [foodValues, setFoodValues] = useState<Partial<Record<FoodType, Partial<FoodValue>>>>(initial?.food.values ?? {});
+  const [perception, setPerception] = useState<Partial<PerceptionSettings>>(initial?.perception ?? {});
+  const [predation, setPredation] = useState<Partial<PredationSettings>>(initial?.predation ?? {});
+  const [agentPolicy, setAgentPolicy] = useState<QTable | null>(null);
+  const [agentTraining, setAgentTraining] = useState<boolean>(false);
+  const [evolution, setEvolution] = useState<Partial<EvolutionSettings>>(initial?.evolution ?? {});
+  // Generational mode: genomes racing now, which generation this is, and per-generation stats
+  const [genomes, setGenomes] = useState<Genome[] | null>(null);
+  const [generation, setGeneration] = useState<number>(1);
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]);
+  const evolutionTimerRef = useRef<number | null>(null);
+  // Bumped on every (re)start so each race gets a fresh RaceSimulation
+  const [raceId, setRaceId] = useState<number>(0);
+  const [loadedReplay, setLoadedReplay] = useState<Replay | null>(null);
+  const [showExperiments, setShowExperiments] = useState<boolean>(false);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
   const [isSimulationRunning, setIsSimulationRunning] = useState<boolean>(false);
   const [isGameOver, setIsGameOver] = useState<boolean>(false);
 
@@ -22,13 +110,136 @@ function App() {
   // Only show switch to 2D mode button after simulation starts
   const showSwitch2D = isSimulationRunning && !isGameOver && mode === '3d';
 
-  // Handler to start simulation
-  const startSimulation = () => {
+  const setPlayerStrategy = (index: number, strategyId: StrategyId) => {
+    setPlayerStrategies(prev => prev.map((s, i) => (i === index ? strategyId : s)));
+  };
+
+  // The whole top bar as a scenario file, and back
+  const scenario = useMemo((): Scenario => ({
+    version: SCENARIO_VERSION,
+    seed,
+    minutes,
+    end,
+    map: { size: mapSize, physics },
+    food: { amount: foodAmount, distribution: foodDistribution, regrowth, values: foodValues },
+    agents: playerStrategies.slice(0, playerCount).map((strategy, i) => ({
+      strategy,
+      ...(playerColors[i] && { color: playerColors[i] }),
+      ...(playerPerception[i] && Object.keys(playerPerception[i]).length > 0 && { perception: playerPerception[i] }),
+    })),
+    social,
+    energy,
+    perception,
+    predation,
+    evolution,
+  }), [seed, minutes, end, mapSize, physics, foodAmount, foodDistribution, regrowth, foodValues, playerStrategies, playerCount, playerColors, playerPerception, social, energy, perception, predation, evolution]);
+  // Only sets state, so it never goes stale and listeners can keep one copy
+  const applyScenario = useCallback((loaded: Scenario) => {
+    setSeed(loaded.seed);
+    setMinutes(loaded.minutes);
+    setEnd(loaded.end ?? {});
+    setMapSize(loaded.map.size);
+    setPhysics(loaded.map.physics ?? {});
+    setFoodAmount(loaded.food.amount);
+    setFoodDistribution(loaded.food.distribution);
+    setRegrowth(loaded.food.regrowth);
+    setFoodValues(loaded.food.values ?? {});
+    setPlayerCount(loaded.agents.length);
+    setPlayerStrategies(prev => prev.map((strategy, i) => loaded.agents[i]?.strategy ?? strategy));
+    setPlayerColors(Array.from({ length: MAX_PLAYERS }, (_, i) => loaded.agents[i]?.color ?? null));
+    setPlayerPerception(loaded.agents.map(agent => agent.perception ?? {}));
+    setSocial(loaded.social ?? {});
+    setEnergy(loaded.energy ?? {});
+    setPerception(loaded.perception ?? {});
+    setPredation(loaded.predation ?? {});
+    setEvolution(loaded.evolution ?? {});
+  }, []);
+
+  // Keep the address bar in step with the top bar, so copying the URL shares the setup;
+  // a setup too big for a link clears the hash rather than leave a stale one
+  const scenarioHash = useMemo(() => encodeScenarioHash(scenario), [scenario]);
+  useEffect(() => {
+    if (window.location.hash !== (scenarioHash ?? '')) {
+      window.history.replaceState(null, '', scenarioHash ?? `${window.location.pathname}${window.location.search}`);
+    }
+  }, [scenarioHash]);
+  // A link pasted into an open tab only changes the hash; load it like a scenario file
+  useEffect(() => {
+    const onHashChange = () => {
+      const { scenario: loaded, error } = readLinkedScenario();
+      if (loaded) applyScenario(loaded);
+      setLinkError(error);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [applyScenario]);
+
+  // Handler to start simulation; a scenario applied in the same update is passed in,
+  // since its settings are not in state yet
+  const startSimulation = (from: Scenario = scenario) => {
+    const evolutionSettings = { ...DEFAULT_EVOLUTION_SETTINGS, ...from.evolution };
+    setGenomes(evolutionSettings.enabled
+      ? initialGenomes(from.agents.length, evolutionSettings, createRandom(deriveSeed(from.seed, EVOLUTION_SEED_SALT)))
+      : null);
+    setGeneration(1);
+    setGenerations([]);
+    setLoadedReplay(null);
+    setRaceId(id => id + 1);
     setIsGameOver(false);
     setIsSimulationRunning(true);
   };
+  // Open a saved replay in the race view; it behaves like a finished race
+  const handleLoadReplay = (replay: Replay) => {
+    setGenomes(null);
+    setLoadedReplay(replay);
+    setRaceId(id => id + 1);
+    setIsSimulationRunning(false);
+    setIsGameOver(true);
+  };
+  // In generational mode, breed the next generation from this race's scores and race it
+  const handleRaceComplete = (fitness: number[]) => {
+    if (!genomes) return;
+    const evolutionSettings = { ...DEFAULT_EVOLUTION_SETTINGS, ...evolution };
+    setGenerations(prev => [...prev, summarizeGeneration(generation, genomes, fitness)]);
+    const next = nextGeneration(genomes, fitness, evolutionSettings, createRandom(deriveSeed(seed + generation, EVOLUTION_SEED_SALT)));
+    evolutionTimerRef.current = window.setTimeout(() => {
+      evolutionTimerRef.current = null;
+      setGenomes(next);
+      setGeneration(generation + 1);
+      setRaceId(id => id + 1);
+      setIsGameOver(false);
+      setIsSimulationRunning(true);
+    }, EVOLUTION_PAUSE_MS);
+  };
+  useEffect(() => () => {
+    if (evolutionTimerRef.current !== null) clearTimeout(evolutionTimerRef.current);
+  }, []);
+  const usesQAgent = (agents: Scenario['agents']) => agents.some(agent => agent.strategy === Q_AGENT_ID);
+  // Keep what the scenario alone cannot reproduce: the generation and the Q-learning policy
+  const handleSaveResult = (result: RaceResult) => {
+    saveRun(createRunRecord(scenario, result, {
+      ...(genomes && { generation }),
+      ...(agentPolicy && usesQAgent(scenario.agents) && { agentPolicy }),
+    }));
+  };
+  // Race a saved run again: same settings, same seed, same policy
+  const handleRerun = (run: RunRecord) => {
+    applyScenario(run.scenario);
+    if (usesQAgent(run.scenario.agents)) {
+      loadQAgentPolicy(run.agentPolicy ?? createQTable());
+      setAgentPolicy(run.agentPolicy ?? null);
+    }
+    setShowHistory(false);
+    startSimulation(run.scenario);
+  };
   // Handler to play again (reset to parameter bar)
   const handlePlayAgain = () => {
+    if (evolutionTimerRef.current !== null) {
+      clearTimeout(evolutionTimerRef.current);
+      evolutionTimerRef.current = null;
+    }
+    setGenomes(null);
+    setLoadedReplay(null);
     setIsGameOver(false);
     setIsSimulationRunning(false);
     setMode('3d');
@@ -38,7 +249,7 @@ function App() {
     <div>
       {/* Parameter bar (only before simulation starts, in 3D mode) */}
       {showParameterBar && (
-        <div className="w-full flex flex-row items-center px-2 py-2 bg-white z-10" style={{ position: 'absolute', top: 0, left: 0 }}>
+        <div className="w-full flex flex-row flex-wrap items-center gap-y-1 px-2 py-2 bg-white z-10" style={{ position: 'absolute', top: 0, left: 0 }}>
           <label htmlFor="playerCount" className="text-xs mr-1 whitespace-nowrap text-gray-800">Players:</label>
           <input
             id="playerCount"
@@ -46,7 +257,7 @@ function App() {
             min="1"
             max="8"
             value={playerCount}
-            onChange={(e) => setPlayerCount(Math.max(1, Math.min(8, parseInt(e.target.value) || 1)))}
+            onChange={(e) => setPlayerCount(Math.max(1, Math.min(MAX_PLAYERS, parseInt(e.target.value) || 1)))}
             className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 w-10 text-center text-xs"
             style={{ height: 28 }}
           />
@@ -61,6 +272,26 @@ function App() {
             className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 w-12 text-center text-xs"
             style={{ height: 28 }}
           />
+          <label htmlFor="mapSize" className="text-xs ml-2 mr-1 whitespace-nowrap text-gray-800" title="Half-width of the arena">Map:</label>
+          <input
+            id="mapSize"
+            type="number"
+            min="5"
+            max="500"
+            value={mapSize}
+            onChange={(e) => setMapSize(Math.max(5, Math.min(500, parseInt(e.target.value) || 5)))}
+            className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 w-12 text-center text-xs"
+            style={{ height: 28 }}
+          />
+          <FoodDistributionControls value={foodDistribution} onChange={setFoodDistribution} />
+          <RegrowthControls value={regrowth} onChange={setRegrowth} />
+          <SocialControls value={social} onChange={setSocial} />
+          <EnergyControls value={energy} onChange={setEnergy} />
+          <FoodValueControls value={foodValues} onChange={setFoodValues} />
+          <PerceptionControls value={perception} onChange={setPerception} />
+          <PredationControls value={predation} onChange={setPredation} />
+          <AgentControls value={agentPolicy} onChange={setAgentPolicy} onTrainingChange={setAgentTraining} seed={seed} />
+          <EvolutionControls value={evolution} onChange={setEvolution} />
           <label htmlFor="minutes" className="text-xs ml-2 mr-1 whitespace-nowrap text-gray-800">Minutes:</label>
           <input
             id="minutes"
@@ -72,15 +303,82 @@ function App() {
             className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 w-12 text-center text-xs"
             style={{ height: 28 }}
           />
+          <EndControls value={end} onChange={setEnd} />
+          {playerStrategies.slice(0, playerCount).map((strategyId, index) => (
+            <span key={index} className="flex flex-row items-center">
+              <label htmlFor={`strategy-${index}`} className="text-xs ml-2 mr-1 whitespace-nowrap text-gray-800">P{index + 1}:</label>
+              <select
+                id={`strategy-${index}`}
+                value={strategyId}
+                onChange={(e) => setPlayerStrategy(index, e.target.value)}
+                className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-xs"
+                style={{ height: 28 }}
+              >
+                {listForagingStrategies().map(strategy => (
+                  <option
+                    key={strategy.id}
+                    value={strategy.id}
+                    title={strategy.description}
+                    // One person, one player: a manual strategy can only be picked for a single slot
+                    disabled={strategy.manual && playerStrategies.slice(0, playerCount).some((s, i) => i !== index && s === strategy.id)}
+                  >
+                    {strategy.label}
+                  </option>
+                ))}
+              </select>
+            </span>
+          ))}
+          <label htmlFor="seed" className="text-xs ml-2 mr-1 whitespace-nowrap text-gray-800">Seed:</label>
+          <input
+            id="seed"
+            type="number"
+            min="0"
+            value={seed}
+            onChange={(e) => setSeed(clampSeed(parseInt(e.target.value) || 0))}
+            className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 w-24 text-center text-xs"
+            style={{ height: 28 }}
+          />
+          <button
+            onClick={() => setSeed(randomSeed())}
+            title="New random seed"
+            className="ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400"
+            style={{ height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 }}
+          >
+            🎲
+          </button>
           <button
-            onClick={startSimulation}
-            className="ml-2 rounded bg-blue-600 hover:bg-blue-700 text-xs font-semibold text-white transition-colors border border-blue-700"
+            onClick={() => startSimulation()}
+            disabled={agentTraining}
+            title={agentTraining ? TRAINING_NOTE : undefined}
+            className="ml-2 rounded bg-blue-600 hover:bg-blue-700 text-xs font-semibold text-white transition-colors border border-blue-700 disabled:opacity-40"
             style={{ height: 28, padding: '0 14px', minWidth: 0, lineHeight: 1.1 }}
           >
             Start
           </button>
+          <ReplayLoader onLoad={handleLoadReplay} disabledReason={agentTraining ? TRAINING_NOTE : null} />
+          <ScenarioControls value={scenario} hash={scenarioHash} onChange={applyScenario} />
+          {linkError && <span className="text-xs ml-1" style={{ color: '#d32f2f' }}>{linkError}</span>}
+          <button
+            onClick={() => setShowExperiments(true)}
+            title="Sweep parameters over many headless races"
+            className="ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400"
+            style={{ height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 }}
+          >
+            Experiments
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            disabled={agentTraining}
+            title={agentTraining ? TRAINING_NOTE : 'Browse, compare and re-run finished races'}
+            className="ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400 disabled:opacity-40"
+            style={{ height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 }}
+          >
+            History
+          </button>
         </div>
       )}
+      {showExperiments && <ExperimentPanel agentPolicy={agentPolicy} onClose={() => setShowExperiments(false)} />}
+      {showHistory && <RunHistoryPanel onRerun={handleRerun} onClose={() => setShowHistory(false)} />}
       {/* Switch to 2D mode button (only after simulation starts) */}
       {showSwitch2D && (
         <div style={{ position: 'absolute', top: 36, right: 24, zIndex: 100, display: 'flex', gap: 8 }}>
@@ -110,8 +408,29 @@ function App() {
       {/* 3D or 2D simulation view */}
       {mode === '3d' ? (
         <RaceSimulation
-          playerCount={playerCount}
+          key={raceId}
+          playerCount={loadedReplay?.config.playerCount ?? playerCount}
           foodAmount={foodAmount}
+          playerStrategies={loadedReplay?.config.playerStrategies ?? playerStrategies}
+          playerColors={playerColors}
+          playerPerception={playerPerception}
+          seed={loadedReplay?.config.seed ?? (genomes ? clampSeed(seed + generation - 1) : seed)}
+          mapSize={loadedReplay?.config.mapSize ?? mapSize}
+          physics={physics}
+          foodDistribution={foodDistribution}
+          regrowth={regrowth}
+          minutes={minutes}
+          end={end}
+          social={social}
+          energy={energy}
+          foodValues={foodValues}
+          perception={perception}
+          predation={predation}
+          genomes={genomes}
+          evolution={genomes ? { generation, history: generations } : null}
+          onRaceComplete={handleRaceComplete}
+          onSaveResult={handleSaveResult}
+          loadedReplay={loadedReplay}
           isSimulationRunning={isSimulationRunning}
           isGameOver={isGameOver}
           setIsGameOver={setIsGameOver}
@@ -123,6 +442,7 @@ function App() {
           playerCount={playerCount}
           foodAmount={foodAmount}
           minutes={minutes}
+          end={end}
           isSimulationRunning={isSimulationRunning}
           isGameOver={isGameOver}
           setIsGameOver={setIsGameOver}
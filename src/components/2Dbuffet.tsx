@@ -1,6 +1,7 @@
 import { useRef, useState, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { DEFAULT_END_SETTINGS, checkEnd, describeEnd, raceClock, type EndSettings, type RaceEnd } from './buffetend';
 
 // Types for our simulation
 interface Player {
@@ -96,10 +97,16 @@ const Simulation: React.FC<{
   playerCount: number,
   foodAmount: number,
   setScores: React.Dispatch<React.SetStateAction<number[]>>,
-  isGameOver: boolean
-}> = ({ playerCount, foodAmount, setScores, isGameOver }) => {
+  isGameOver: boolean,
+  isPaused: boolean,
+  timeLimit: number, // seconds
+  endSettings: EndSettings,
+  setRaceTime: (time: number) => void,
+  onRaceEnd: (end: RaceEnd) => void
+}> = ({ playerCount, foodAmount, setScores, isGameOver, isPaused, timeLimit, endSettings, setRaceTime, onRaceEnd }) => {
   const [players, setPlayers] = useState<Player[]>([]);
   const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
+  const timeRef = useRef(0); // simulated seconds, frozen while paused
   
   // Initialize simulation
   useEffect(() => {
@@ -159,6 +166,7 @@ const Simulation: React.FC<{
     }
     
     setFoodItems(newFoodItems);
+    timeRef.current = 0;
     
   }, [playerCount, foodAmount]); // Removed camera from dependencies as it's static here
   
@@ -168,7 +176,7 @@ const Simulation: React.FC<{
     /*
     if (isGameOver || players.length === 0 || foodItems.length === 0) return;
     */
-    if (isGameOver) return; // Simplified condition for stopping updates
+    if (isGameOver || isPaused) return; // Simplified condition for stopping updates
     if (players.length === 0 || foodItems.length === 0) {
       // If there are no players or food, there's nothing to update.
       // This can happen if initialization hasn't completed or if all food is consumed etc.
@@ -275,7 +283,19 @@ const Simulation: React.FC<{
     
     setPlayers(updatedPlayers);
     setFoodItems(updatedFoodItems);
-    
+
+    // Same end conditions as the 3D race; every item here is worth one point
+    timeRef.current += delta;
+    setRaceTime(timeRef.current);
+    const end = checkEnd({
+      time: timeRef.current,
+      timeLimit,
+      itemsEaten: updatedPlayers.map(p => p.score),
+      alive: updatedPlayers.map(() => true),
+      foodLeft: updatedFoodItems.filter(f => !f.consumed).length,
+      startingFood: updatedFoodItems.length,
+    }, endSettings);
+    if (end) onRaceEnd(end);
   });
   
   return (
@@ -352,6 +372,7 @@ interface Buffet2DProps {
   playerCount: number;
   foodAmount: number;
   minutes: number;
+  end: Partial<EndSettings>;
   isSimulationRunning: boolean;
   isGameOver: boolean;
   setIsGameOver: (v: boolean) => void;
@@ -364,6 +385,7 @@ const Buffet2D: React.FC<Buffet2DProps> = ({
   playerCount,
   foodAmount,
   minutes,
+  end,
   isSimulationRunning,
   isGameOver,
   setIsGameOver,
@@ -373,35 +395,16 @@ const Buffet2D: React.FC<Buffet2DProps> = ({
 }) => {
   const [scores, setScores] = useState<number[]>([]);
   const [isPaused, setIsPaused] = useState<boolean>(false);
-  const [timeLeft, setTimeLeft] = useState<number>(minutes * 60);
-  const timerRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    if (isSimulationRunning && !isPaused && !isGameOver) {
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prevTime => {
-          if (prevTime <= 1) {
-            clearInterval(timerRef.current!);
-            setIsGameOver(true);
-            setIsSimulationRunning(false);
-            return 0;
-          }
-          return prevTime - 1;
-        });
-      }, 1000);
-    } else if (timerRef.current) {
-      clearInterval(timerRef.current);
-    }
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, [isSimulationRunning, isPaused, isGameOver, setIsGameOver, setIsSimulationRunning]);
+  const [raceTime, setRaceTime] = useState<number>(0);
+  const [raceEnd, setRaceEnd] = useState<RaceEnd | null>(null);
+  const endSettings = { ...DEFAULT_END_SETTINGS, ...end };
+  const timeLimit = minutes * 60;
 
-  useEffect(() => {
-    setTimeLeft(minutes * 60);
-  }, [minutes, isSimulationRunning]);
+  const handleRaceEnd = (ended: RaceEnd) => {
+    setRaceEnd(ended);
+    setIsGameOver(true);
+    setIsSimulationRunning(false);
+  };
 
   const handlePauseResume = () => {
     setIsPaused((prev) => !prev);
@@ -416,6 +419,7 @@ const Buffet2D: React.FC<Buffet2DProps> = ({
       {showGameOverScreen && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900 z-20">
           <h1 className="text-4xl font-bold mb-4">Race Over!</h1>
+          {raceEnd && <p className="mb-4 text-lg">{describeEnd(raceEnd, endSettings)}</p>}
           <h2 className="text-2xl mb-8">Final Scores:</h2>
           <div className="grid grid-cols-2 gap-x-8 gap-y-2 mb-8">
             {scores.map((score, index) => (
@@ -456,7 +460,7 @@ const Buffet2D: React.FC<Buffet2DProps> = ({
               </div>
             </div>
             <div className="absolute top-4 right-4 z-10 p-3 bg-black bg-opacity-70 text-white rounded-lg shadow-xl flex items-center gap-4">
-              <span className="font-mono text-2xl">Time: {String(Math.floor(timeLeft / 60)).padStart(2, '0')}:{String(timeLeft % 60).padStart(2, '0')}</span>
+              <span className="font-mono text-2xl">Time: {raceClock(raceTime, timeLimit, endSettings)}</span>
               <button
                 onClick={handlePauseResume}
                 className="ml-2 rounded bg-yellow-500 hover:bg-yellow-600 text-xs font-semibold text-black transition-colors border border-yellow-700 px-4 py-2"
@@ -474,7 +478,17 @@ const Buffet2D: React.FC<Buffet2DProps> = ({
         )}
         <div style={{ transform: 'scale(0.5)', transformOrigin: 'top center', width: '100vw', height: '100vh', display: 'flex', justifyContent: 'center', alignItems: 'flex-start' }}>
           <Canvas camera={{ position: [0, 30, 0], up: [0, 1, 0], fov: 55, near: 0.1, far: 1000 }} style={{ width: '100vw', height: '100vh', display: 'block' }}>
-            <Simulation playerCount={playerCount} foodAmount={foodAmount} setScores={setScores} isGameOver={isGameOver} />
+            <Simulation
+              playerCount={playerCount}
+              foodAmount={foodAmount}
+              setScores={setScores}
+              isGameOver={isGameOver}
+              isPaused={isPaused}
+              timeLimit={timeLimit}
+              endSettings={endSettings}
+              setRaceTime={setRaceTime}
+              onRaceEnd={handleRaceEnd}
+            />
           </Canvas>
         </div>
       </div>
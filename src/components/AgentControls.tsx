@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_Q_TRAINING_OPTIONS,
+  QLearningTrainer,
+  loadQAgentPolicy,
+  parseQTable,
+  type QEpisodeResult,
+  type QTable,
+} from './buffetagents';
+
+interface AgentControlsProps {
+  value: QTable | null; // policy currently driving the Q-learning agent
+  onChange: (table: QTable) => void;
+  onTrainingChange: (training: boolean) => void; // the parent keeps races from starting (and unmounting us) mid-training
+  seed: number;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+const buttonClass = 'ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400';
+const buttonStyle = { height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 };
+
+// Parameter-bar controls to train, save and load the Q-learning agent's policy.
+// Training runs headless, one episode per macrotask so the page stays responsive.
+const AgentControls: React.FC<AgentControlsProps> = ({ value, onChange, onTrainingChange, seed }) => {
+  const [episodes, setEpisodes] = useState(DEFAULT_Q_TRAINING_OPTIONS.episodes);
+  const [progress, setProgress] = useState<QEpisodeResult | null>(null);
+  const [training, setTraining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelled = useRef(false);
+  useEffect(() => () => {
+    cancelled.current = true;
+  }, []);
+  useEffect(() => {
+    onTrainingChange(training);
+  }, [training, onTrainingChange]);
+
+  const applyPolicy = (table: QTable) => {
+    loadQAgentPolicy(table);
+    onChange(table);
+  };
+
+  const train = () => {
+    // Keep improving the loaded policy rather than starting from scratch
+    const trainer = new QLearningTrainer({ episodes, seed }, value ? { ...value, values: value.values.slice() } : undefined);
+    cancelled.current = false;
+    setTraining(true);
+    setError(null);
+    const step = () => {
+      if (cancelled.current) return;
+      setProgress(trainer.runEpisode());
+      if (trainer.done) {
+        setTraining(false);
+        applyPolicy(trainer.table);
+      } else {
+        setTimeout(step, 0);
+      }
+    };
+    setTimeout(step, 0);
+  };
+
+  const save = () => {
+    if (!value) return;
+    const blob = new Blob([JSON.stringify(value)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'q-agent-policy.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePolicyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      applyPolicy(parseQTable(JSON.parse(await file.text())));
+      setError(null);
+      setProgress(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <>
+      <label htmlFor="trainEpisodes" className={labelClass} title="Episodes of headless Q-learning against greedy players">Q-agent eps:</label>
+      <input
+        id="trainEpisodes"
+        type="number"
+        min="1"
+        max="5000"
+        value={episodes}
+        disabled={training}
+        onChange={(e) => setEpisodes(Math.max(1, Math.min(5000, parseInt(e.target.value) || 1)))}
+        className={`${inputClass} w-12`}
+        style={{ height: 28 }}
+      />
+      <button type="button" className={buttonClass} style={buttonStyle} disabled={training} onClick={train}>
+        {training ? 'Training…' : 'Train'}
+      </button>
+      <button type="button" className={buttonClass} style={buttonStyle} disabled={!value || training} onClick={save} title="Download the learned Q-table">
+        Save
+      </button>
+      <label className={`${buttonClass} flex items-center cursor-pointer`} style={buttonStyle} title="Load a saved Q-table">
+        Load
+        <input type="file" accept="application/json,.json" onChange={handlePolicyFile} className="hidden" />
+      </label>
+      {error ? (
+        <span className="text-xs ml-1" style={{ color: '#d32f2f' }}>{error}</span>
+      ) : progress ? (
+        <span className="text-xs ml-1 text-gray-500 font-mono" title="Mean score per episode: learning agents vs greedy opponents">
+          ep {progress.episode}/{episodes} · {progress.agentScore.toFixed(1)} vs {progress.opponentScore.toFixed(1)}
+        </span>
+      ) : value ? (
+        <span className="text-xs ml-1 text-gray-500">({value.episodes} eps trained)</span>
+      ) : null}
+    </>
+  );
+};
+
+export default AgentControls;
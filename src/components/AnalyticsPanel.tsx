@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { PLAYER_COLORS } from './buffetengine';
+import { gini, intakeRates, searchEfficiency, type AnalyticsSample } from './buffetanalytics';
+
+interface AnalyticsPanelProps {
+  history: AnalyticsSample[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 64;
+const PAD = 3;
+
+interface ChartSeries {
+  color: string;
+  values: (number | null)[]; // null leaves a gap
+}
+
+function LineChart({ title, value, times, series, min }: {
+  title: string;
+  value: string; // latest reading, shown next to the title
+  times: number[];
+  series: ChartSeries[];
+  min?: number;
+}) {
+  const all = series.flatMap(s => s.values.filter((v): v is number => v !== null));
+  const lo = min ?? (all.length ? Math.min(...all) : 0);
+  const hi = all.length ? Math.max(lo, ...all) : 1;
+  const range = hi - lo || 1;
+  const maxTime = times[times.length - 1] || 1;
+  const x = (t: number) => PAD + (t / maxTime) * (WIDTH - PAD * 2);
+  const y = (v: number) => HEIGHT - PAD - ((v - lo) / range) * (HEIGHT - PAD * 2);
+  return (
+    <div className="mb-2">
+      <div className="flex justify-between text-xs" style={{ color: '#9ca3af' }}>
+        <span>{title}</span>
+        <span className="font-mono text-white">{value}</span>
+      </div>
+      <svg width={WIDTH} height={HEIGHT} style={{ background: 'rgba(255,255,255,0.05)', borderRadius: 4 }}>
+        {series.map((s, i) => {
+          const points = s.values
+            .map((v, k) => (v === null ? null : `${x(times[k]).toFixed(1)},${y(v).toFixed(1)}`))
+            .filter((p): p is string => p !== null)
+            .join(' ');
+          return <polyline key={i} points={points} fill="none" stroke={s.color} strokeWidth={1.5} />;
+        })}
+      </svg>
+    </div>
+  );
+}
+
+// Collapsible live charts of the race as an experiment: intake, intake rate,
+// distance, search efficiency, food left and inequality of intake across players
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ history }) => {
+  const [open, setOpen] = useState(false);
+  const charts = useMemo(() => {
+    if (history.length === 0) return null;
+    const times = history.map(h => h.time);
+    const players = history[0].scores.length;
+    const perPlayer = (value: (sample: AnalyticsSample, i: number, k: number) => number | null) =>
+      Array.from({ length: players }, (_, i) => ({
+        color: PLAYER_COLORS[i % PLAYER_COLORS.length],
+        values: history.map((sample, k) => value(sample, i, k)),
+      }));
+    const rates = intakeRates(history);
+    return {
+      times,
+      intake: perPlayer((sample, i) => sample.scores[i]),
+      rate: perPlayer((_, i, k) => rates[k][i]),
+      distance: perPlayer((sample, i) => sample.distances[i]),
+      efficiency: perPlayer((sample, i) => searchEfficiency(sample.scores[i], sample.distances[i])),
+      foodLeft: [{ color: '#43a047', values: history.map(h => h.foodLeft) }],
+      gini: [{ color: '#fbbf24', values: history.map(h => gini(h.scores)) }],
+    };
+  }, [history]);
+  const last = history[history.length - 1];
+  const latest = (series: ChartSeries[], digits: number) => {
+    const values = series.map(s => s.values[s.values.length - 1]).filter((v): v is number => v !== null);
+    return values.length ? `${Math.min(...values).toFixed(digits)}–${Math.max(...values).toFixed(digits)}` : '–';
+  };
+  return (
+    <div
+      className="absolute left-2 z-10 rounded-lg text-white px-3 py-2"
+      style={{ top: 8, background: 'rgba(17,24,39,0.85)', width: WIDTH + 24 }}
+    >
+      <button className="w-full flex justify-between items-center text-sm font-semibold" onClick={() => setOpen(!open)}>
+        <span>📈 Analytics</span>
+        <span className="font-mono text-xs" style={{ color: '#9ca3af' }}>
+          {last && `Gini ${gini(last.scores).toFixed(2)} `}{open ? '▾' : '▸'}
+        </span>
+      </button>
+      {open && charts && (
+        <div className="mt-2">
+          <div className="flex flex-wrap gap-x-2 mb-2 text-xs">
+            {charts.intake.map((s, i) => (
+              <span key={i} style={{ color: s.color }}>● P{i + 1}</span>
+            ))}
+          </div>
+          <LineChart title="Cumulative intake" value={latest(charts.intake, 0)} times={charts.times} series={charts.intake} min={0} />
+          <LineChart title="Intake rate (/s, 2 s window)" value={latest(charts.rate, 2)} times={charts.times} series={charts.rate} min={0} />
+          <LineChart title="Distance travelled" value={latest(charts.distance, 0)} times={charts.times} series={charts.distance} min={0} />
+          <LineChart title="Search efficiency (intake per unit distance)" value={latest(charts.efficiency, 3)} times={charts.times} series={charts.efficiency} min={0} />
+          <LineChart title="Food left" value={String(last.foodLeft)} times={charts.times} series={charts.foodLeft} min={0} />
+          <LineChart title="Gini index of intake" value={gini(last.scores).toFixed(2)} times={charts.times} series={charts.gini} min={0} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
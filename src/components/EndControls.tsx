@@ -0,0 +1,78 @@
+import React from 'react';
+import { DEFAULT_END_SETTINGS, type EndSettings } from './buffetend';
+
+interface EndControlsProps {
+  value: Partial<EndSettings>;
+  onChange: (settings: Partial<EndSettings>) => void;
+}
+
+const DEFAULT_FIRST_TO = 20; // items, when the condition is switched on
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const selectClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for how the race ends: which conditions, and whether any or all of them
+const EndControls: React.FC<EndControlsProps> = ({ value, onChange }) => {
+  const settings = { ...DEFAULT_END_SETTINGS, ...value };
+  const checkbox = (checked: boolean, label: string, title: string, onToggle: (checked: boolean) => void) => (
+    <label className={`${labelClass} flex items-center gap-x-1`} title={title}>
+      <input type="checkbox" checked={checked} onChange={(e) => onToggle(e.target.checked)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <>
+      <label htmlFor="end-combine" className={labelClass}>Ends when:</label>
+      <select
+        id="end-combine"
+        value={settings.combine}
+        onChange={(e) => onChange({ ...value, combine: e.target.value as EndSettings['combine'] })}
+        className={selectClass}
+        style={{ height: 28 }}
+      >
+        <option value="any">any of</option>
+        <option value="all">all of</option>
+      </select>
+      {checkbox(settings.timeLimit, 'Time up', 'The Minutes setting runs out', checked => onChange({ ...value, timeLimit: checked }))}
+      {checkbox(settings.foodEaten > 0, 'Food eaten', 'A share of the starting food has been eaten', checked => onChange({ ...value, foodEaten: checked ? 1 : 0 }))}
+      {settings.foodEaten > 0 && (
+        <>
+          <input
+            id="end-foodEaten"
+            type="number"
+            min="1"
+            max="100"
+            step="5"
+            value={Math.round(settings.foodEaten * 100)}
+            onChange={(e) => onChange({ ...value, foodEaten: Math.max(1, Math.min(100, parseInt(e.target.value) || 1)) / 100 })}
+            className={`${inputClass} w-12`}
+            style={{ height: 28 }}
+          />
+          <span className="text-xs ml-1 text-gray-800">%</span>
+        </>
+      )}
+      {checkbox(settings.firstTo > 0, 'First to', 'One player has eaten this many items', checked => onChange({ ...value, firstTo: checked ? DEFAULT_FIRST_TO : 0 }))}
+      {settings.firstTo > 0 && (
+        <>
+          <input
+            id="end-firstTo"
+            type="number"
+            min="1"
+            max="20000"
+            step="1"
+            value={settings.firstTo}
+            onChange={(e) => onChange({ ...value, firstTo: Math.max(1, Math.min(20000, parseInt(e.target.value) || 1)) })}
+            className={`${inputClass} w-12`}
+            style={{ height: 28 }}
+          />
+          <span className="text-xs ml-1 text-gray-800">items</span>
+        </>
+      )}
+      {checkbox(settings.lastAlive, 'Last alive', 'Only one player is still alive (needs energy or predators)', checked => onChange({ ...value, lastAlive: checked }))}
+    </>
+  );
+};
+
+export default EndControls;
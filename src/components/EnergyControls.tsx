@@ -0,0 +1,72 @@
+import React from 'react';
+import { DEFAULT_ENERGY_SETTINGS, type EnergySettings } from './buffetenergy';
+import type { FoodType } from './buffetfood';
+
+interface EnergyControlsProps {
+  value: Partial<EnergySettings>;
+  onChange: (settings: Partial<EnergySettings>) => void;
+}
+
+type CostKey = 'initialEnergy' | 'basalCost' | 'movementCost' | 'jumpCost';
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+const FOOD_LABELS: Record<FoodType, string> = { cube: '■', sphere: '●', triangle: '▲' };
+
+// Parameter-bar controls for the energy budget; costs are only shown once it is on
+const EnergyControls: React.FC<EnergyControlsProps> = ({ value, onChange }) => {
+  const settings = { ...DEFAULT_ENERGY_SETTINGS, ...value };
+  const numberInput = (id: string, label: string, title: string, current: number, step: number, set: (n: number) => void) => (
+    <>
+      <label htmlFor={id} className={labelClass} title={title}>{label}:</label>
+      <input
+        id={id}
+        type="number"
+        min="0"
+        max="1000"
+        step={step}
+        value={current}
+        onChange={(e) => set(Math.max(0, Math.min(1000, parseFloat(e.target.value) || 0)))}
+        className={`${inputClass} w-12`}
+        style={{ height: 28 }}
+      />
+    </>
+  );
+  const costInput = (key: CostKey, label: string, title: string, step: number) =>
+    numberInput(key, label, title, settings[key], step, n => onChange({ ...value, [key]: n }));
+
+  return (
+    <>
+      <label className={`${labelClass} flex items-center gap-x-1`} title="Players pay to live, move and jump, and starve at zero energy">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        Energy
+      </label>
+      {settings.enabled && (
+        <>
+          {costInput('initialEnergy', 'Start E', 'Energy each player starts with', 5)}
+          {costInput('basalCost', 'Basal/s', 'Energy burned per second just staying alive', 0.1)}
+          {costInput('movementCost', 'Move', 'Energy burned per unit travelled', 0.05)}
+          {costInput('jumpCost', 'Jump', 'Energy burned per jump', 0.5)}
+          {(Object.keys(FOOD_LABELS) as FoodType[]).map(type => (
+            <React.Fragment key={type}>
+              {numberInput(
+                `foodEnergy-${type}`,
+                FOOD_LABELS[type],
+                `Calories in a ${type}`,
+                settings.foodEnergy[type],
+                1,
+                n => onChange({ ...value, foodEnergy: { ...settings.foodEnergy, [type]: n } })
+              )}
+            </React.Fragment>
+          ))}
+        </>
+      )}
+    </>
+  );
+};
+
+export default EnergyControls;
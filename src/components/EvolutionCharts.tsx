@@ -0,0 +1,76 @@
+import React from 'react';
+import { GENOME_TRAITS, type GenerationRecord } from './buffetevolution';
+
+interface EvolutionChartsProps {
+  history: GenerationRecord[];
+}
+
+const WIDTH = 170;
+const HEIGHT = 60;
+const PAD = 4;
+
+interface Series {
+  label: string;
+  mean: number[];
+  spread?: number[]; // one standard deviation, drawn as a band around the mean
+  extra?: number[]; // second line, e.g. best fitness
+  min?: number;
+  max?: number;
+}
+
+function TraitChart({ label, mean, spread, extra, min, max }: Series) {
+  const lows = mean.map((m, i) => m - (spread?.[i] ?? 0));
+  const highs = mean.map((m, i) => m + (spread?.[i] ?? 0));
+  const lo = min ?? Math.min(...lows, ...(extra ?? []));
+  const hi = max ?? Math.max(...highs, ...(extra ?? []));
+  const range = hi - lo || 1;
+  const x = (i: number) => PAD + (mean.length > 1 ? (i / (mean.length - 1)) * (WIDTH - PAD * 2) : (WIDTH - PAD * 2) / 2);
+  const y = (v: number) => HEIGHT - PAD - ((v - lo) / range) * (HEIGHT - PAD * 2);
+  const line = (values: number[]) => values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+  const band = spread
+    ? [...highs.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`), ...lows.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).reverse()].join(' ')
+    : null;
+  const last = mean[mean.length - 1];
+  return (
+    <div className="flex flex-col items-start">
+      <span className="text-xs" style={{ color: '#9ca3af' }}>
+        {label}: <span className="font-mono text-white">{last.toFixed(2)}</span>
+        {spread && <span className="font-mono"> ±{spread[spread.length - 1].toFixed(2)}</span>}
+      </span>
+      <svg width={WIDTH} height={HEIGHT} style={{ background: 'rgba(255,255,255,0.05)', borderRadius: 4 }}>
+        {band && <polygon points={band} fill="#60a5fa" opacity={0.25} />}
+        <polyline points={line(mean)} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+        {extra && <polyline points={line(extra)} fill="none" stroke="#fbbf24" strokeWidth={1} />}
+        {mean.length === 1 && <circle cx={x(0)} cy={y(mean[0])} r={2} fill="#60a5fa" />}
+      </svg>
+    </div>
+  );
+}
+
+// Mean (line) and standard deviation (band) of every heritable trait across generations,
+// plus mean and best (yellow) fitness
+const EvolutionCharts: React.FC<EvolutionChartsProps> = ({ history }) => {
+  if (history.length === 0) return null;
+  return (
+    <div className="grid grid-cols-3 gap-3 mb-6">
+      <TraitChart
+        label="Fitness"
+        mean={history.map(h => h.meanFitness)}
+        extra={history.map(h => h.bestFitness)}
+        min={0}
+      />
+      {GENOME_TRAITS.map(info => (
+        <TraitChart
+          key={info.key}
+          label={info.label}
+          mean={history.map(h => h.traits[info.key].mean)}
+          spread={history.map(h => Math.sqrt(h.traits[info.key].variance))}
+          min={info.min}
+          max={info.max}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default EvolutionCharts;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { DEFAULT_EVOLUTION_SETTINGS, type EvolutionSettings } from './buffetevolution';
+
+interface EvolutionControlsProps {
+  value: Partial<EvolutionSettings>;
+  onChange: (settings: Partial<EvolutionSettings>) => void;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for generational mode
+const EvolutionControls: React.FC<EvolutionControlsProps> = ({ value, onChange }) => {
+  const settings = { ...DEFAULT_EVOLUTION_SETTINGS, ...value };
+  return (
+    <>
+      <label className={`${labelClass} flex items-center gap-x-1`} title="Race after race, the top scorers breed the next generation's players">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        Evolve
+      </label>
+      {settings.enabled && (
+        <>
+          <label htmlFor="mutationRate" className={labelClass} title="Chance each trait mutates in a child">Mutation %:</label>
+          <input
+            id="mutationRate"
+            type="number"
+            min="0"
+            max="100"
+            step="5"
+            value={Math.round(settings.mutationRate * 100)}
+            onChange={(e) => onChange({ ...value, mutationRate: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100 })}
+            className={`${inputClass} w-12`}
+            style={{ height: 28 }}
+          />
+        </>
+      )}
+    </>
+  );
+};
+
+export default EvolutionControls;
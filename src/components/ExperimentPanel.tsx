@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_EXPERIMENT,
+  expandConditions,
+  mixLabel,
+  runsToCsv,
+  summariesToCsv,
+  summarizeExperiment,
+  type Estimate,
+  type ExperimentDefinition,
+  type RunResult,
+} from './buffetexperiment';
+import type { ExperimentMessage, ExperimentRequest } from './buffetexperimentworker';
+import type { QTable } from './buffetagents';
+import { listFoodDistributions } from './buffetfood';
+import { listForagingStrategies } from './buffetstrategies';
+
+interface ExperimentPanelProps {
+  agentPolicy: QTable | null; // drives q-agent players in the sweep
+  onClose: () => void;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-xs';
+const labelClass = 'text-xs mr-1 whitespace-nowrap text-gray-800';
+const buttonClass = 'ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400';
+const buttonStyle = { height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 };
+const MAX_RUNS = 5000;
+
+// Distributions that need extra input (a layout file) cannot be swept
+const SWEEPABLE_DISTRIBUTIONS = listFoodDistributions().filter(d => d.id !== 'layout');
+
+interface ExperimentForm {
+  playerCounts: string;
+  foodAmounts: string;
+  distributions: string[];
+  strategyMixes: string; // one mix per line, strategy ids separated by commas
+  replicates: number;
+  seconds: number;
+  seed: number;
+}
+
+function parseIntegers(text: string, name: string, min: number, max: number): number[] {
+  const values = text.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(v => !Number.isInteger(v) || v < min || v > max)) {
+    throw new Error(`${name} must be a comma-separated list of whole numbers from ${min} to ${max}`);
+  }
+  return Array.from(new Set(values));
+}
+
+function parseForm(form: ExperimentForm): ExperimentDefinition {
+  const strategyIds = new Set(listForagingStrategies().filter(s => !s.manual).map(s => s.id));
+  const strategyMixes = form.strategyMixes
+    .split('\n')
+    .map(line => line.split(',').map(s => s.trim()).filter(Boolean))
+    .filter(mix => mix.length > 0);
+  if (strategyMixes.length === 0) throw new Error('Add at least one strategy mix');
+  strategyMixes.flat().forEach(id => {
+    if (!strategyIds.has(id)) throw new Error(`Unknown strategy "${id}"; use one of ${Array.from(strategyIds).join(', ')}`);
+  });
+  if (form.distributions.length === 0) throw new Error('Pick at least one food distribution');
+  const definition: ExperimentDefinition = {
+    ...DEFAULT_EXPERIMENT,
+    playerCounts: parseIntegers(form.playerCounts, 'Players', 1, 8),
+    foodAmounts: parseIntegers(form.foodAmounts, 'Food', 1, 20000),
+    distributions: form.distributions,
+    strategyMixes,
+    replicates: form.replicates,
+    seconds: form.seconds,
+    seed: form.seed,
+  };
+  const runs = expandConditions(definition).length * definition.replicates;
+  if (runs > MAX_RUNS) throw new Error(`${runs} runs is too many; keep it under ${MAX_RUNS}`);
+  return definition;
+}
+
+function downloadText(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function EstimateCell({ value, digits = 1, scale = 1 }: { value: Estimate | undefined; digits?: number; scale?: number }) {
+  if (!value || value.n === 0) return <td className="px-2 text-right">–</td>;
+  return (
+    <td className="px-2 text-right font-mono whitespace-nowrap" title={`95% CI ${(value.low * scale).toFixed(digits)} to ${(value.high * scale).toFixed(digits)}, n = ${value.n}`}>
+      {(value.mean * scale).toFixed(digits)}
+      <span className="text-gray-500"> ±{(((value.high - value.low) / 2) * scale).toFixed(digits)}</span>
+    </td>
+  );
+}
+
+// Modal to define a parameter sweep, run it headlessly in a Web Worker and
+// tabulate means with 95% confidence intervals per condition
+const ExperimentPanel: React.FC<ExperimentPanelProps> = ({ agentPolicy, onClose }) => {
+  const [form, setForm] = useState<ExperimentForm>({
+    playerCounts: DEFAULT_EXPERIMENT.playerCounts.join(', '),
+    foodAmounts: DEFAULT_EXPERIMENT.foodAmounts.join(', '),
+    distributions: DEFAULT_EXPERIMENT.distributions,
+    strategyMixes: DEFAULT_EXPERIMENT.strategyMixes.map(mix => mix.join(', ')).join('\n'),
+    replicates: DEFAULT_EXPERIMENT.replicates,
+    seconds: DEFAULT_EXPERIMENT.seconds,
+    seed: DEFAULT_EXPERIMENT.seed,
+  });
+  const [definition, setDefinition] = useState<ExperimentDefinition | null>(null);
+  const [results, setResults] = useState<RunResult[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const run = () => {
+    let parsed: ExperimentDefinition;
+    try {
+      parsed = parseForm(form);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    stop();
+    const worker = new Worker(new URL('./buffetexperimentworker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setDefinition(parsed);
+    setResults([]);
+    setProgress({ done: 0, total: expandConditions(parsed).length * parsed.replicates });
+    setError(null);
+    setRunning(true);
+    worker.onmessage = (event: MessageEvent<ExperimentMessage>) => {
+      const message = event.data;
+      if (message.type === 'result') {
+        setResults(prev => [...prev, message.result]);
+        setProgress({ done: message.done, total: message.total });
+      } else {
+        if (message.type === 'error') setError(message.message);
+        stop();
+      }
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'The experiment worker failed');
+      stop();
+    };
+    const request: ExperimentRequest = { definition: parsed, agentPolicy };
+    worker.postMessage(request);
+  };
+
+  const conditions = definition ? expandConditions(definition) : [];
+  const summaries = definition ? summarizeExperiment(conditions, results) : [];
+  const strategies = Array.from(new Set(summaries.flatMap(s => Object.keys(s.intakeByStrategy))));
+  const update = (patch: Partial<ExperimentForm>) => setForm(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center" style={{ background: 'rgba(0,0,0,0.5)' }}>
+      <div className="bg-white text-gray-900 rounded-lg shadow-lg p-4 overflow-auto" style={{ maxWidth: '95vw', maxHeight: '90vh', minWidth: 560 }}>
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-lg font-bold">Batch experiment</h2>
+          <button className={buttonClass} style={buttonStyle} onClick={() => { stop(); onClose(); }}>Close</button>
+        </div>
+        <div className="grid gap-2 mb-3" style={{ gridTemplateColumns: 'auto 1fr' }}>
+          <label className={labelClass} htmlFor="expPlayers">Players:</label>
+          <input id="expPlayers" className={inputClass} value={form.playerCounts} onChange={(e) => update({ playerCounts: e.target.value })} placeholder="e.g. 2, 4, 8" />
+          <label className={labelClass} htmlFor="expFood">Food:</label>
+          <input id="expFood" className={inputClass} value={form.foodAmounts} onChange={(e) => update({ foodAmounts: e.target.value })} placeholder="e.g. 100, 500" />
+          <span className={labelClass}>Distributions:</span>
+          <span className="flex flex-wrap gap-x-3">
+            {SWEEPABLE_DISTRIBUTIONS.map(d => (
+              <label key={d.id} className="text-xs flex items-center gap-x-1" title={d.description}>
+                <input
+                  type="checkbox"
+                  checked={form.distributions.includes(d.id)}
+                  onChange={(e) => update({
+                    distributions: e.target.checked ? [...form.distributions, d.id] : form.distributions.filter(id => id !== d.id),
+                  })}
+                />
+                {d.label}
+              </label>
+            ))}
+          </span>
+          <label className={labelClass} htmlFor="expMixes" title="One mix per line; the strategies are dealt out to the players in turn">Strategy mixes:</label>
+          <textarea
+            id="expMixes"
+            className={inputClass}
+            rows={3}
+            value={form.strategyMixes}
+            onChange={(e) => update({ strategyMixes: e.target.value })}
+            placeholder={listForagingStrategies().filter(s => !s.manual).map(s => s.id).join(', ')}
+          />
+          <span className={labelClass}>Runs:</span>
+          <span className="flex items-center">
+            <label className={labelClass} htmlFor="expReplicates">Replicates</label>
+            <input id="expReplicates" type="number" min="1" max="200" className={`${inputClass} w-14 text-center`} value={form.replicates}
+              onChange={(e) => update({ replicates: Math.max(1, Math.min(200, parseInt(e.target.value) || 1)) })} />
+            <label className={`${labelClass} ml-2`} htmlFor="expSeconds">Seconds</label>
+            <input id="expSeconds" type="number" min="1" max="3600" className={`${inputClass} w-14 text-center`} value={form.seconds}
+              onChange={(e) => update({ seconds: Math.max(1, Math.min(3600, parseInt(e.target.value) || 1)) })} />
+            <label className={`${labelClass} ml-2`} htmlFor="expSeed">Seed</label>
+            <input id="expSeed" type="number" min="0" className={`${inputClass} w-20 text-center`} value={form.seed}
+              onChange={(e) => update({ seed: Math.max(0, parseInt(e.target.value) || 0) })} />
+          </span>
+        </div>
+        <div className="flex items-center mb-3">
+          <button className="rounded bg-blue-600 hover:bg-blue-700 text-xs font-semibold text-white border border-blue-700" style={{ height: 28, padding: '0 14px' }} onClick={run} disabled={running}>
+            Run
+          </button>
+          {running && <button className={buttonClass} style={buttonStyle} onClick={stop}>Cancel</button>}
+          {progress && (
+            <span className="text-xs ml-2 font-mono text-gray-600">
+              {progress.done}/{progress.total} runs{running ? '…' : ''}
+            </span>
+          )}
+          {error && <span className="text-xs ml-2" style={{ color: '#d32f2f' }}>{error}</span>}
+          {definition && results.length > 0 && (
+            <>
+              <button className={`${buttonClass} ml-auto`} style={buttonStyle} onClick={() => downloadText('buffet-experiment-summary.csv', summariesToCsv(summaries))}>
+                Summary CSV
+              </button>
+              <button className={buttonClass} style={buttonStyle} onClick={() => downloadText('buffet-experiment-runs.csv', runsToCsv(conditions, results))}>
+                Runs CSV
+              </button>
+            </>
+          )}
+        </div>
+        {summaries.length > 0 && (
+          <table className="text-xs" style={{ borderCollapse: 'collapse' }}>
+            <thead>
+              <tr className="text-gray-500">
+                <th className="px-2 text-left">Players</th>
+                <th className="px-2 text-left">Food</th>
+                <th className="px-2 text-left">Distribution</th>
+                <th className="px-2 text-left">Mix</th>
+                <th className="px-2 text-right">n</th>
+                <th className="px-2 text-right">Mean intake</th>
+                <th className="px-2 text-right">Gini</th>
+                <th className="px-2 text-right">Eaten %</th>
+                <th className="px-2 text-right">Duration s</th>
+                {strategies.map(s => <th key={s} className="px-2 text-right">{s} intake</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(summary => (
+                <tr key={summary.condition.index} className="border-t border-gray-200">
+                  <td className="px-2">{summary.condition.playerCount}</td>
+                  <td className="px-2">{summary.condition.foodAmount}</td>
+                  <td className="px-2">{summary.condition.distribution}</td>
+                  <td className="px-2">{mixLabel(summary.condition.strategyMix)}</td>
+                  <td className="px-2 text-right font-mono">{summary.meanIntake.n}</td>
+                  <EstimateCell value={summary.meanIntake} />
+                  <EstimateCell value={summary.gini} digits={2} />
+                  <EstimateCell value={summary.foodEaten} scale={100} digits={0} />
+                  <EstimateCell value={summary.duration} />
+                  {strategies.map(s => <EstimateCell key={s} value={summary.intakeByStrategy[s]} />)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentPanel;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_DISTRIBUTION_PARAMS,
+  listFoodDistributions,
+  parseFoodLayout,
+  type FoodDistributionParams,
+  type FoodDistributionSettings,
+} from './buffetfood';
+
+interface FoodDistributionControlsProps {
+  value: FoodDistributionSettings;
+  onChange: (settings: FoodDistributionSettings) => void;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for picking a food distribution and its parameters
+const FoodDistributionControls: React.FC<FoodDistributionControlsProps> = ({ value, onChange }) => {
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  const params = { ...DEFAULT_DISTRIBUTION_PARAMS, ...value.params };
+  const setParam = <K extends keyof FoodDistributionParams>(key: K, paramValue: FoodDistributionParams[K]) => {
+    onChange({ ...value, params: { ...value.params, [key]: paramValue } });
+  };
+
+  const handleLayoutFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const layout = parseFoodLayout(JSON.parse(await file.text()));
+      setLayoutError(null);
+      setParam('layout', layout);
+    } catch (err) {
+      setLayoutError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <>
+      <label htmlFor="foodDistribution" className={labelClass}>Layout:</label>
+      <select
+        id="foodDistribution"
+        value={value.id}
+        onChange={(e) => onChange({ ...value, id: e.target.value })}
+        className="px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-xs"
+        style={{ height: 28 }}
+      >
+        {listFoodDistributions().map(distribution => (
+          <option key={distribution.id} value={distribution.id} title={distribution.description}>{distribution.label}</option>
+        ))}
+      </select>
+      {value.id === 'gaussian-patches' && (
+        <>
+          <label htmlFor="patchCount" className={labelClass}>Patches:</label>
+          <input
+            id="patchCount"
+            type="number"
+            min="1"
+            max="50"
+            value={params.patchCount}
+            onChange={(e) => setParam('patchCount', Math.max(1, Math.min(50, parseInt(e.target.value) || 1)))}
+            className={`${inputClass} w-10`}
+            style={{ height: 28 }}
+          />
+          <label htmlFor="patchRichness" className={labelClass} title="Relative food per patch, e.g. 1,1,4">Richness:</label>
+          <input
+            id="patchRichness"
+            type="text"
+            defaultValue={params.patchRichness.join(',')}
+            onBlur={(e) => {
+              const weights = e.target.value.split(',').map(Number).filter(w => Number.isFinite(w) && w >= 0);
+              setParam('patchRichness', weights.length > 0 ? weights : [1]);
+            }}
+            className={`${inputClass} w-16`}
+            style={{ height: 28 }}
+          />
+        </>
+      )}
+      {(value.id === 'gaussian-patches' || value.id === 'rings') && (
+        <>
+          <label htmlFor="patchSpread" className={labelClass}>Spread:</label>
+          <input
+            id="patchSpread"
+            type="number"
+            min="0.5"
+            max="20"
+            step="0.5"
+            value={params.patchSpread}
+            onChange={(e) => setParam('patchSpread', Math.max(0.5, Math.min(20, parseFloat(e.target.value) || 0.5)))}
+            className={`${inputClass} w-12`}
+            style={{ height: 28 }}
+          />
+        </>
+      )}
+      {value.id === 'rings' && (
+        <>
+          <label htmlFor="ringCount" className={labelClass}>Rings:</label>
+          <input
+            id="ringCount"
+            type="number"
+            min="1"
+            max="10"
+            value={params.ringCount}
+            onChange={(e) => setParam('ringCount', Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+            className={`${inputClass} w-10`}
+            style={{ height: 28 }}
+          />
+        </>
+      )}
+      {value.id === 'poisson-disc' && (
+        <>
+          <label htmlFor="minDistance" className={labelClass} title="0 picks a spacing from the food amount">Min dist:</label>
+          <input
+            id="minDistance"
+            type="number"
+            min="0"
+            max="20"
+            step="0.5"
+            value={params.minDistance}
+            onChange={(e) => setParam('minDistance', Math.max(0, Math.min(20, parseFloat(e.target.value) || 0)))}
+            className={`${inputClass} w-12`}
+            style={{ height: 28 }}
+          />
+        </>
+      )}
+      {value.id === 'layout' && (
+        <>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleLayoutFile}
+            className="text-xs ml-2 text-gray-800"
+            style={{ maxWidth: 180 }}
+          />
+          {layoutError ? (
+            <span className="text-xs ml-1" style={{ color: '#d32f2f' }}>{layoutError}</span>
+          ) : !params.layout && (
+            <span className="text-xs ml-1 text-gray-500">(no file: uniform)</span>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+export default FoodDistributionControls;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { DEFAULT_FOOD_VALUES, PREY_MODEL_FOOD_VALUES, type FoodValue, type FoodValues } from './buffetdiet';
+import { FOOD_TYPES, type FoodType } from './buffetfood';
+
+interface FoodValueControlsProps {
+  value: Partial<Record<FoodType, Partial<FoodValue>>>;
+  onChange: (values: Partial<Record<FoodType, Partial<FoodValue>>>) => void;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+const buttonClass = 'ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400';
+const buttonStyle = { height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 };
+const FOOD_LABELS: Record<FoodType, string> = { cube: '■', sphere: '●', triangle: '▲' };
+
+// Parameter-bar controls for prey value (points) and handling time (seconds) per food type
+const FoodValueControls: React.FC<FoodValueControlsProps> = ({ value, onChange }) => {
+  const values: FoodValues = { ...DEFAULT_FOOD_VALUES };
+  FOOD_TYPES.forEach(type => {
+    values[type] = { ...values[type], ...value[type] };
+  });
+  const setField = (type: FoodType, key: keyof FoodValue, fieldValue: number) => {
+    onChange({ ...value, [type]: { ...value[type], [key]: fieldValue } });
+  };
+
+  return (
+    <>
+      <span className={labelClass} title="Points per item / handling time in seconds">Prey pts/s:</span>
+      {FOOD_TYPES.map(type => (
+        <span key={type} className="flex items-center gap-x-0.5 mr-1" title={`${type}: points / handling seconds`}>
+          <span className="text-xs text-gray-800">{FOOD_LABELS[type]}</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="1"
+            value={values[type].value}
+            onChange={(e) => setField(type, 'value', Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)))}
+            className={`${inputClass} w-10`}
+            style={{ height: 28 }}
+          />
+          <input
+            type="number"
+            min="0"
+            max="30"
+            step="0.5"
+            value={values[type].handlingTime}
+            onChange={(e) => setField(type, 'handlingTime', Math.max(0, Math.min(30, parseFloat(e.target.value) || 0)))}
+            className={`${inputClass} w-10`}
+            style={{ height: 28 }}
+          />
+        </span>
+      ))}
+      <button
+        type="button"
+        className={buttonClass}
+        style={buttonStyle}
+        title="Rich-but-slow, quick-snack and not-worth-it prey for the diet breadth model"
+        onClick={() => onChange(PREY_MODEL_FOOD_VALUES)}
+      >
+        Prey preset
+      </button>
+      <button
+        type="button"
+        className={buttonClass}
+        style={buttonStyle}
+        title="Every item worth 1 point, eaten instantly"
+        onClick={() => onChange({})}
+      >
+        Reset
+      </button>
+    </>
+  );
+};
+
+export default FoodValueControls;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { DEFAULT_PERCEPTION_SETTINGS, type PerceptionSettings } from './buffetperception';
+
+interface PerceptionControlsProps {
+  value: Partial<PerceptionSettings>;
+  onChange: (settings: Partial<PerceptionSettings>) => void;
+}
+
+type NumberKey = 'radius' | 'fieldOfView' | 'memoryDuration';
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for limited sensing; players are omniscient while it is off
+const PerceptionControls: React.FC<PerceptionControlsProps> = ({ value, onChange }) => {
+  const settings = { ...DEFAULT_PERCEPTION_SETTINGS, ...value };
+  const numberInput = (key: NumberKey, label: string, title: string, min: number, max: number, step: number) => (
+    <>
+      <label htmlFor={key} className={labelClass} title={title}>{label}:</label>
+      <input
+        id={key}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[key]}
+        onChange={(e) => onChange({ ...value, [key]: Math.max(min, Math.min(max, parseFloat(e.target.value) || 0)) })}
+        className={`${inputClass} w-12`}
+        style={{ height: 28 }}
+      />
+    </>
+  );
+
+  return (
+    <>
+      <label className={`${labelClass} flex items-center gap-x-1`} title="Players only know about food they can see or remember">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        Limited sight
+      </label>
+      {settings.enabled && (
+        <>
+          {numberInput('radius', 'Sight', 'Detection radius', 1, 100, 1)}
+          {numberInput('fieldOfView', 'FOV°', 'Field of view, degrees (360 sees all round)', 10, 360, 10)}
+          {numberInput('memoryDuration', 'Memory s', 'Seconds a seen item is remembered', 0, 600, 1)}
+          <label className={`${labelClass} flex items-center gap-x-1`} title="Other players block the line of sight">
+            <input
+              type="checkbox"
+              checked={settings.occlusion}
+              onChange={(e) => onChange({ ...value, occlusion: e.target.checked })}
+            />
+            Occlusion
+          </label>
+        </>
+      )}
+    </>
+  );
+};
+
+export default PerceptionControls;
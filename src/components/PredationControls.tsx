@@ -0,0 +1,59 @@
+import React from 'react';
+import { DEFAULT_PREDATION_SETTINGS, type PredationSettings } from './buffetpredators';
+
+interface PredationControlsProps {
+  value: Partial<PredationSettings>;
+  onChange: (settings: Partial<PredationSettings>) => void;
+}
+
+type NumberKey = 'count' | 'speed' | 'scanInterval';
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for predators and forager vigilance
+const PredationControls: React.FC<PredationControlsProps> = ({ value, onChange }) => {
+  const settings = { ...DEFAULT_PREDATION_SETTINGS, ...value };
+  const numberInput = (key: NumberKey, label: string, title: string, min: number, max: number, step: number) => (
+    <>
+      <label htmlFor={`predation-${key}`} className={labelClass} title={title}>{label}:</label>
+      <input
+        id={`predation-${key}`}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[key]}
+        onChange={(e) => onChange({ ...value, [key]: Math.max(min, Math.min(max, parseFloat(e.target.value) || 0)) })}
+        className={`${inputClass} w-12`}
+        style={{ height: 28 }}
+      />
+    </>
+  );
+
+  return (
+    <>
+      {numberInput('count', 'Predators', 'Number of predators hunting the players', 0, 8, 1)}
+      {settings.count > 0 && (
+        <>
+          {numberInput('speed', 'Pred speed', 'Predator chase speed (players walk at 2-3)', 0.5, 10, 0.5)}
+          {numberInput('scanInterval', 'Scan every s', 'Mean seconds between a player\'s vigilance scans', 0.5, 60, 0.5)}
+          <label htmlFor="predation-capture" className={labelClass} title="Chance a strike on a lone, unaware player kills it">Capture %:</label>
+          <input
+            id="predation-capture"
+            type="number"
+            min="0"
+            max="100"
+            step="5"
+            value={Math.round(settings.captureProbability * 100)}
+            onChange={(e) => onChange({ ...value, captureProbability: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100 })}
+            className={`${inputClass} w-12`}
+            style={{ height: 28 }}
+          />
+        </>
+      )}
+    </>
+  );
+};
+
+export default PredationControls;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { getForagingStrategy } from './buffetstrategies';
+import type { PlayerResult, RaceResult } from './buffetresults';
+
+interface RaceResultsProps {
+  result: RaceResult;
+  save?: {
+    saved: boolean; // in the run history
+    error: string | null; // why saving failed
+    onSave: () => void; // try again
+  };
+}
+
+const MAP_SIZE = 56; // mini-map size in pixels
+const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm';
+
+function formatNumber(value: number, digits = 1): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(digits);
+}
+
+// The arena seen from above with one player's path; the dot marks where it ended
+export function PathMiniMap({ path, color, mapSize }: { path: [number, number][]; color: string; mapSize: number }) {
+  const scale = (v: number) => ((v + mapSize) / (mapSize * 2)) * MAP_SIZE;
+  const last = path[path.length - 1];
+  return (
+    <svg width={MAP_SIZE} height={MAP_SIZE} style={{ background: 'rgba(128,128,128,0.2)', borderRadius: 4 }}>
+      <polyline
+        points={path.map(([x, z]) => `${scale(x).toFixed(1)},${scale(z).toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke={color}
+        strokeWidth={1}
+        strokeOpacity={0.8}
+      />
+      {last && <circle cx={scale(last[0])} cy={scale(last[1])} r={2.5} fill={color} />}
+    </svg>
+  );
+}
+
+function playerStatus(player: PlayerResult): string {
+  if (player.causeOfDeath === 'predation') return ' 🐺💀';
+  return player.causeOfDeath ? ' 💀' : '';
+}
+
+// Ranked results table, with whether the run made it into the history
+const RaceResults: React.FC<RaceResultsProps> = ({ result, save }) => {
+  return (
+    <div className="mb-6 flex flex-col items-center">
+      <table className="mb-3 text-sm" style={{ borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ color: '#9ca3af' }}>
+            <th className="px-3 text-left">#</th>
+            <th className="px-3 text-left">Player</th>
+            <th className="px-3 text-left">Strategy</th>
+            <th className="px-3 text-right">Score</th>
+            <th className="px-3 text-right">Items</th>
+            <th className="px-3 text-right">Distance</th>
+            <th className="px-3 text-right">Jumps</th>
+            <th className="px-3 text-right">Idle s</th>
+            <th className="px-3 text-right" title="Mean seconds per item, from the start of the race">Gap s</th>
+            <th className="px-3 text-left">Path</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.players.map(player => (
+            <tr key={player.id}>
+              <td className="px-3 font-mono">{player.rank}</td>
+              <td className="px-3 whitespace-nowrap">
+                <span style={{ color: player.color }}>●</span> P{player.id + 1}{playerStatus(player)}
+              </td>
+              <td className="px-3">{player.strategy ? getForagingStrategy(player.strategy).label : '–'}</td>
+              <td className="px-3 text-right font-mono">{formatNumber(player.score)}</td>
+              <td className="px-3 text-right font-mono">{player.itemsEaten}</td>
+              <td className="px-3 text-right font-mono">{player.distance.toFixed(0)}</td>
+              <td className="px-3 text-right font-mono">{player.jumps}</td>
+              <td className="px-3 text-right font-mono">{player.idleTime.toFixed(1)}</td>
+              <td className="px-3 text-right font-mono">{player.meanCaptureInterval !== null ? player.meanCaptureInterval.toFixed(1) : '–'}</td>
+              <td className="px-3 py-1">
+                {player.path.length > 0 && <PathMiniMap path={player.path} color={player.color} mapSize={result.mapSize} />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {save && (
+        <div className="flex items-center gap-x-2 text-sm">
+          {save.saved ? (
+            <span style={{ color: '#9ca3af' }}>Saved to history ✓</span>
+          ) : (
+            <button className={buttonClass} onClick={save.onSave}>Save to history</button>
+          )}
+          {save.error && <span style={{ color: '#d32f2f' }}>{save.error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RaceResults;
@@ -1,4 +1,4 @@
-import { useRef, useState, useEffect, useLayoutEffect, useMemo } from 'react';
+import { useCallback, useRef, useState, useEffect, useLayoutEffect, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { useGLTF, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
@@ -10,7 +10,29 @@ import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import React, { forwardRef } from 'react';
 import { EffectComposer, Outline } from '@react-three/postprocessing';
 import { extend } from '@react-three/fiber';
-import { updateBuffetPlayers } from './buffetplayers';
+import type { Player, FoodItem, PhysicsSettings } from './buffetplayers';
+import { DEFAULT_FIXED_DELTA, MAX_SIM_SPEED, SimulationEngine, type FoodHistorySample } from './buffetengine';
+import { DEFAULT_END_SETTINGS, describeEnd, raceClock, type EndSettings, type RaceEnd } from './buffetend';
+import { createRandom, deriveSeed } from './buffetrandom';
+import type { RegrowthSettings } from './buffetregrowth';
+import type { ForagerRole, SocialSettings } from './buffetsocial';
+import { isAlive, netEnergyRate, type EnergySettings } from './buffetenergy';
+import type { FoodValue } from './buffetdiet';
+import type { PerceptionSettings } from './buffetperception';
+import type { PredationSettings, Predator } from './buffetpredators';
+import type { GenerationRecord, Genome } from './buffetevolution';
+import EvolutionCharts from './EvolutionCharts';
+import type { FoodDistributionSettings, FoodType } from './buffetfood';
+import { getForagingStrategy, type StrategyId } from './buffetstrategies';
+import { consumptionsToCsv, samplesToCsv, telemetryToJson } from './buffettelemetry';
+import { ReplayPlayback, type Replay } from './buffetreplay';
+import ReplayControls from './ReplayControls';
+import SimulationControls from './SimulationControls';
+import AnalyticsPanel from './AnalyticsPanel';
+import RaceResults from './RaceResults';
+import { raceResult, type RaceResult } from './buffetresults';
+import { HUMAN_STRATEGY_ID, NO_HUMAN_INPUT, steerHumans, type HumanInput } from './buffethuman';
+import type { AnalyticsSample } from './buffetanalytics';
 extend({ OrbitControls: OrbitControlsImpl });
 
 // TypeScript: allow <orbitControls /> in JSX
@@ -22,26 +44,6 @@ declare global {
   }
 }
 
-// Types for our simulation
-interface Player {
-  id: number;
-  position: THREE.Vector3;
-  quaternion: THREE.Quaternion;
-  velocity: THREE.Vector3;
-  score: number;
-  color: string;
-  isJumping?: boolean;
-  verticalVelocity?: number;
-}
-
-interface FoodItem {
-  id: number;
-  position: THREE.Vector3;
-  type: 'cube' | 'sphere' | 'triangle';
-  consumed: boolean;
-  color: string;
-}
-
 // Player outline color palette
 const outlineColors = [
   '#1976d2', // blue
@@ -95,6 +97,20 @@ const PlayerMesh = forwardRef<null, { player: Player; meshArrayRef: React.Mutabl
             <meshBasicMaterial color={'white'} transparent opacity={0.7} />
           </mesh>
         )}
+        {/* Sight cone of the followed player when perception is limited */}
+        {isFollowed && player.perception?.enabled && (
+          <mesh position={[0, -1.4, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+            <circleGeometry
+              args={[
+                player.perception.radius / 0.5, // undo the group scale
+                48,
+                Math.PI / 2 - THREE.MathUtils.degToRad(player.perception.fieldOfView) / 2,
+                THREE.MathUtils.degToRad(player.perception.fieldOfView),
+              ]}
+            />
+            <meshBasicMaterial color={outlineColor} transparent opacity={0.2} side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+        )}
         {gltf && gltf.scene ? (
           <primitive object={gltf.scene.clone()} />
         ) : (
@@ -112,6 +128,106 @@ const PlayerMesh = forwardRef<null, { player: Player; meshArrayRef: React.Mutabl
   }
 );
 
+// Predator model is optional: drop a GLB at this path, otherwise a blocky stand-in is drawn
+const PREDATOR_MODEL_URL = '/models/predator.glb';
+
+// Renders `fallback` instead of crashing the Canvas when a model fails to load
+class ModelErrorBoundary extends React.Component<{ fallback: React.ReactNode; children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+function PredatorModel() {
+  const gltf = useGLTF(PREDATOR_MODEL_URL);
+  return <primitive object={gltf.scene.clone()} />;
+}
+
+function PredatorFallbackMesh() {
+  return (
+    <group>
+      <mesh>
+        <boxGeometry args={[0.8, 0.8, 1.8]} />
+        <meshStandardMaterial color="#3b2323" />
+      </mesh>
+      <mesh position={[0, 0.25, -1.1]}>
+        <boxGeometry args={[0.6, 0.5, 0.6]} />
+        <meshStandardMaterial color="#4a2c2c" />
+      </mesh>
+      {[-0.15, 0.15].map(x => (
+        <mesh key={x} position={[x, 0.35, -1.42]}>
+          <sphereGeometry args={[0.07, 8, 8]} />
+          <meshBasicMaterial color="#ff1a1a" />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+const PredatorMesh: React.FC<{ predator: Predator }> = ({ predator }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  useFrame(() => {
+    if (groupRef.current) {
+      groupRef.current.position.copy(predator.position);
+      groupRef.current.quaternion.copy(predator.quaternion);
+    }
+  });
+  return (
+    <group ref={groupRef}>
+      <ModelErrorBoundary fallback={<PredatorFallbackMesh />}>
+        <React.Suspense fallback={<PredatorFallbackMesh />}>
+          <PredatorModel />
+        </React.Suspense>
+      </ModelErrorBoundary>
+    </group>
+  );
+};
+
+// Landscape of fear: the engine's fear grid drawn as a red overlay on the ground
+const FEAR_MAP_REFRESH = 0.5; // seconds between texture refreshes
+function FearHeatmap({ engineRef, mapSize }: { engineRef: React.MutableRefObject<SimulationEngine | null>; mapSize: number }) {
+  const cols = engineRef.current?.fearMap.cols ?? 1;
+  const { texture, data } = useMemo(() => {
+    const pixels = new Uint8Array(cols * cols * 4);
+    const tex = new THREE.DataTexture(pixels, cols, cols, THREE.RGBAFormat);
+    tex.magFilter = THREE.LinearFilter;
+    tex.needsUpdate = true;
+    return { texture: tex, data: pixels };
+  }, [cols]);
+  useEffect(() => () => texture.dispose(), [texture]);
+  const sinceRefresh = useRef(Infinity);
+  useFrame((_, delta) => {
+    sinceRefresh.current += delta;
+    const fearMap = engineRef.current?.fearMap;
+    if (!fearMap || fearMap.cols !== cols || sinceRefresh.current < FEAR_MAP_REFRESH) return;
+    sinceRefresh.current = 0;
+    for (let row = 0; row < cols; row++) {
+      for (let col = 0; col < cols; col++) {
+        const fear = fearMap.max > 0 ? Math.sqrt(fearMap.values[row * cols + col] / fearMap.max) : 0;
+        // Texture rows run from +z to -z once the plane is laid flat
+        const i = ((cols - 1 - row) * cols + col) * 4;
+        data[i] = 220;
+        data[i + 1] = 30;
+        data[i + 2] = 30;
+        data[i + 3] = Math.round(fear * 170);
+      }
+    }
+    texture.needsUpdate = true;
+  });
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.45, 0]}>
+      <planeGeometry args={[mapSize * 2, mapSize * 2]} />
+      <meshBasicMaterial map={texture} transparent depthWrite={false} />
+    </mesh>
+  );
+}
+
 // Food item component
 const FoodItemMesh: React.FC<{ item: FoodItem }> = ({ item }) => {
   const meshRef = useRef<THREE.Group>(null);
@@ -137,18 +253,45 @@ const FoodItemMesh: React.FC<{ item: FoodItem }> = ({ item }) => {
   );
 };
 
-// --- Add a constant for map boundaries ---
-const MAP_SIZE = 40; // Map is from -MAP_SIZE to +MAP_SIZE in x and z (half as big)
+// Per-player marginal value theorem readout for the HUD
+interface PatchStats {
+  residence: number | null; // seconds in the current patch, null before the first capture
+  gainRate: number; // smoothed intake rate, score per second
+}
 
-// --- Update Player AI logic to respect boundaries ---
-// (We will pass MAP_SIZE to updateBuffetPlayers and clamp positions after update)
+// Per-player energy budget readout, null when the energy model is off
+interface EnergyStats {
+  energy: number;
+  alive: boolean;
+  netRate: number; // net energy intake per second alive
+}
 
-const INSTRUCTIONS = `\n[Base Template] This is a foundational project for foraging theory experiments. Advanced concepts and features are in development.\n\n🍽️ Welcome to Buffet Race! 🍽️\n\nThis simulation is inspired by foraging theory and natural systems.\n\nApplications & Concepts:\n\n- 🦉 Foraging Theory: Study how agents (players) search for and consume resources (food) in a shared environment.\n- 🧑‍🤝‍🧑 Producer-Scrounger Models: Explore how some agents find food while others exploit their discoveries.\n- 🦆 Ideal Free Distribution: See how agents distribute themselves among food patches to maximize intake.\n- 🌳 Marginal Value Theorem: Understand when agents should leave a depleted patch for a richer one.\n- 🏗️ Asset Modeling: Use this as a base for 3D asset or crowd simulation.\n- 🌱 Natural Systems: Model animal, human, or robot foraging, resource competition, and more!\n\nControls:\n- Press 'Start' to begin the race.\n- Use the parameters bar to set player and food count.\n- Press 'i' to toggle these instructions.\n- Watch the scorecard for live results!\n\nHave fun exploring! 🚀`;
+const INSTRUCTIONS = `\n[Base Template] This is a foundational project for foraging theory experiments. Advanced concepts and features are in development.\n\n🍽️ Welcome to Buffet Race! 🍽️\n\nThis simulation is inspired by foraging theory and natural systems.\n\nApplications & Concepts:\n\n- 🦉 Foraging Theory: Study how agents (players) search for and consume resources (food) in a shared environment.\n- 🧑‍🤝‍🧑 Producer-Scrounger Models: Explore how some agents find food while others exploit their discoveries.\n- 🦆 Ideal Free Distribution: See how agents distribute themselves among food patches to maximize intake.\n- 🌳 Marginal Value Theorem: Understand when agents should leave a depleted patch for a richer one.\n- 🏗️ Asset Modeling: Use this as a base for 3D asset or crowd simulation.\n- 🌱 Natural Systems: Model animal, human, or robot foraging, resource competition, and more!\n\nControls:\n- Press 'Start' to begin the race.\n- Use the parameters bar to set player and food count.\n- Press 'i' to toggle these instructions.\n- Set a player to 'You' to race the bots yourself: WASD/arrows or a gamepad's left stick to walk, Q/E or the right stick to turn, space or A to jump.\n- Watch the scorecard for live results!\n\nHave fun exploring! 🚀`;
 
 // --- Main component ---
 interface RaceSimulationProps {
   playerCount: number;
   foodAmount: number;
+  playerStrategies: StrategyId[];
+  playerColors: (string | null)[]; // per-player colour overrides from a scenario
+  playerPerception: Partial<PerceptionSettings>[]; // per-player sensing overrides from a scenario
+  seed: number;
+  mapSize: number; // arena spans -mapSize..mapSize in x and z
+  physics: Partial<PhysicsSettings>;
+  foodDistribution: FoodDistributionSettings;
+  regrowth: RegrowthSettings;
+  minutes: number; // time limit
+  end: Partial<EndSettings>;
+  social: Partial<SocialSettings>;
+  energy: Partial<EnergySettings>;
+  foodValues: Partial<Record<FoodType, Partial<FoodValue>>>;
+  perception: Partial<PerceptionSettings>;
+  predation: Partial<PredationSettings>;
+  genomes: Genome[] | null; // heritable traits per player in generational mode
+  evolution: { generation: number; history: GenerationRecord[] } | null;
+  onRaceComplete: (fitness: number[]) => void; // called once when the race ends, with final scores
+  onSaveResult: (result: RaceResult) => void; // keep the finished race in the run history; throws when it cannot
+  loadedReplay: Replay | null; // replay file opened from the top bar; shown instead of a live race
   isSimulationRunning: boolean;
   isGameOver: boolean;
   setIsGameOver: (v: boolean) => void;
@@ -159,6 +302,26 @@ interface RaceSimulationProps {
 const RaceSimulation: React.FC<RaceSimulationProps> = ({
   playerCount,
   foodAmount,
+  playerStrategies,
+  playerColors,
+  playerPerception,
+  seed,
+  mapSize,
+  physics,
+  foodDistribution,
+  regrowth,
+  minutes,
+  end,
+  social,
+  energy,
+  foodValues,
+  perception,
+  predation,
+  genomes,
+  evolution,
+  onRaceComplete,
+  onSaveResult,
+  loadedReplay,
   isSimulationRunning,
   isGameOver,
   setIsGameOver,
@@ -166,19 +329,47 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
   handlePlayAgain,
 }) => {
   const [scores, setScores] = useState<number[]>([]);
+  const [patchStats, setPatchStats] = useState<PatchStats[]>([]);
+  const [roles, setRoles] = useState<ForagerRole[]>([]);
+  const [roleScores, setRoleScores] = useState<Record<ForagerRole, number>[]>([]);
+  const [energyStats, setEnergyStats] = useState<(EnergyStats | null)[]>([]);
+  const [deaths, setDeaths] = useState<(Player['causeOfDeath'] | null)[]>([]);
+  const [predatorKills, setPredatorKills] = useState<number | null>(null); // null when there are no predators
   const [foodLeft, setFoodLeft] = useState<number>(0);
-  const [timeLeft, setTimeLeft] = useState<number>(60); // Initial time: 60 seconds
+  const [foodHistory, setFoodHistory] = useState<FoodHistorySample[]>([]);
+  const [analytics, setAnalytics] = useState<AnalyticsSample[]>([]);
+  // Simulated seconds into the race, and the results once it has ended
+  const [raceTime, setRaceTime] = useState<number>(0);
+  const [results, setResults] = useState<RaceResult | null>(null);
+  const [saveState, setSaveState] = useState<{ saved: boolean; error: string | null }>({ saved: false, error: null });
+  const endSettings = { ...DEFAULT_END_SETTINGS, ...end };
+  const timeLimit = minutes * 60;
   const [showTitle, setShowTitle] = useState<boolean>(true);
-  const timerRef = useRef<number | null>(null);
   const meshArrayRefs = React.useRef(Array.from({ length: playerCount }, () => ({ current: [] as THREE.Mesh[] }))).current;
   // Memoize all meshes for Outline
   const allPlayerMeshes = React.useMemo(
     () => meshArrayRefs.slice(0, playerCount).flatMap(ref => ref.current || []),
     [playerCount]
   );
-  const [followedPlayerId, setFollowedPlayerId] = useState<number | null>(null);
-  const [runMode, setRunMode] = useState(false);
+  // The player you steer, if a slot is set to "You"; the camera starts out behind it
+  const humanIndex = playerStrategies.slice(0, playerCount).indexOf(HUMAN_STRATEGY_ID);
+  const humanPlayerId = humanIndex >= 0 ? humanIndex : null;
+  const humanInputRef = useRef<HumanInput>(NO_HUMAN_INPUT);
+  const viewYawRef = useRef(0); // direction you face, radians in the XZ plane
+  const [followedPlayerId, setFollowedPlayerId] = useState<number | null>(humanPlayerId);
+  // Live race transport: paused, speed multiplier, and ticks asked for with the step button
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const pendingTicksRef = useRef(0);
+  const [showFearMap, setShowFearMap] = useState(true);
   const [showInstructions, setShowInstructions] = useState<boolean>(false);
+  // The running race's engine, owned by Simulation; the overlay reads its telemetry
+  const engineRef = useRef<SimulationEngine | null>(null);
+  // Replay of the finished (or a loaded) race, and where the timeline is
+  const [replay, setReplay] = useState<ReplayPlayback | null>(() => (loadedReplay ? new ReplayPlayback(loadedReplay) : null));
+  const [replayTime, setReplayTime] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(true);
+  const [replaySpeed, setReplaySpeed] = useState(1);
 
   // Hide the title after 15 seconds
   useEffect(() => {
@@ -188,31 +379,43 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
     }
   }, [showTitle]);
 
+  const saveResults = useCallback((result: RaceResult) => {
+    try {
+      onSaveResult(result);
+      setSaveState({ saved: true, error: null });
+    } catch (err) {
+      setSaveState({ saved: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  }, [onSaveResult]);
+
+  // Report final scores and save the run once per race (this component is remounted for every race)
+  const reportedRef = useRef(false);
   useEffect(() => {
-    if (isSimulationRunning && !isGameOver) {
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prevTime => {
-          if (prevTime <= 1) {
-            clearInterval(timerRef.current!);
-            setIsGameOver(true);
-            setIsSimulationRunning(false);
-            return 0;
-          }
-          return prevTime - 1;
-        });
-      }, 1000);
-    } else if (timerRef.current) {
-      clearInterval(timerRef.current);
+    if (!isGameOver || reportedRef.current) return;
+    reportedRef.current = true;
+    onRaceComplete(scores);
+    if (results) saveResults(results);
+  }, [isGameOver, scores, onRaceComplete, results, saveResults]);
+
+  const watchReplay = () => {
+    const engine = engineRef.current;
+    if (!engine?.replay) return;
+    setReplay(new ReplayPlayback(engine.replay.toReplay(engine.config)));
+    setReplayTime(0);
+    setReplayPlaying(true);
+  };
+
+  const exitReplay = () => {
+    if (loadedReplay) {
+      handlePlayAgain();
+    } else {
+      setReplay(null);
     }
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, [isSimulationRunning, isGameOver]);
+  };
 
-  // Callback for Simulation to notify when food runs out
-  const handleFoodDepleted = () => {
+  // Callback for Simulation to notify when an end condition fires
+  const handleRaceEnd = () => {
+    if (engineRef.current) setResults(raceResult(engineRef.current));
     setIsGameOver(true);
     setIsSimulationRunning(false);
   };
@@ -231,7 +434,21 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'r' || e.key === 'R') {
-        setRunMode((prev: boolean) => !prev);
+        setSpeed(prev => (prev === 1 ? 8 : 1));
+      } else if (e.key === 'p' || e.key === 'P') {
+        setPaused(prev => !prev);
+      } else if (e.key === '.') {
+        pendingTicksRef.current += 1;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'h' || e.key === 'H') {
+        setShowFearMap((prev: boolean) => !prev);
       }
     };
     window.addEventListener('keydown', handleKeyDown);
@@ -266,20 +483,55 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
             {scores.map((score, index) => {
               const colorEmojis = ['🔵', '🟢', '🟣', '🟡', '🟠', '🟤', '🔴', '⚫'];
               return (
-                <span key={index} className="flex items-center gap-x-1">
+                <span key={index} className="flex items-center gap-x-1" title={getForagingStrategy(playerStrategies[index]).description}>
                   <span>{colorEmojis[index % colorEmojis.length]}</span>
-                  <span className="font-bold">P{index + 1}:</span>
-                  <span className="font-mono">{score}</span>
+                  <span className="font-bold">P{index + 1}</span>
+                  <span style={{ color: '#6b7280', fontSize: 11 }}>
+                    {roles[index] === 'scrounger' ? 'Scrounger' : getForagingStrategy(playerStrategies[index]).label}:
+                  </span>
+                  <span className="font-mono">{formatScore(score)}</span>
+                  {energyStats[index] && energyStats[index].alive && (
+                    <span className="font-mono" style={{ color: '#b45309', fontSize: 11 }} title="Energy reserve">
+                      ⚡{energyStats[index].energy.toFixed(0)}
+                    </span>
+                  )}
+                  {deaths[index] && (
+                    <span title={deaths[index] === 'predation' ? 'Caught by a predator' : 'Starved'}>
+                      {deaths[index] === 'predation' ? '🐺💀' : '💀'}
+                    </span>
+                  )}
+                  {patchStats[index] && (
+                    <span className="font-mono" style={{ color: '#6b7280', fontSize: 11 }} title="Patch residence time · instantaneous gain rate">
+                      ({patchStats[index].residence !== null ? `${patchStats[index].residence!.toFixed(0)}s` : '–'} · {patchStats[index].gainRate.toFixed(2)}/s)
+                    </span>
+                  )}
                 </span>
               );
             })}
-            <span className="flex items-center gap-x-1 font-mono">
+            <span className="flex items-center gap-x-1 font-mono" title={endSettings.timeLimit ? 'Simulated time left' : 'Simulated time so far'}>
               <span>⏱</span>
-              <span>{String(Math.floor(timeLeft / 60)).padStart(2, '0')}:{String(timeLeft % 60).padStart(2, '0')}</span>
+              <span>{raceClock(raceTime, timeLimit, endSettings)}</span>
             </span>
             <span className="flex items-center gap-x-1 font-mono">
               <span role="img" aria-label="food">🍏</span>
               <span>{foodLeft} left</span>
+              <FoodHistorySparkline history={foodHistory} />
+            </span>
+            {predatorKills !== null && (
+              <span className="flex items-center gap-x-1 font-mono" title="Players caught by predators (press H for the landscape of fear)">
+                <span role="img" aria-label="predators">🐺</span>
+                <span>{predatorKills} caught</span>
+              </span>
+            )}
+            {evolution && (
+              <span className="flex items-center gap-x-1 font-mono" title="Generation in generational mode">
+                <span role="img" aria-label="generation">🧬</span>
+                <span>Gen {evolution.generation}</span>
+              </span>
+            )}
+            <span className="flex items-center gap-x-1 font-mono" style={{ color: '#6b7280' }} title="Random seed for this race">
+              <span role="img" aria-label="seed">🌱</span>
+              <span>{seed}</span>
             </span>
           </div>
         </div>
@@ -290,8 +542,14 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
           <>
             <Canvas style={{ width: '100%', height: '100%', display: 'block' }} camera={{ position: [12, 10, 12], up: [0, 1, 0], fov: 60, near: 0.1, far: 1000 }}>
               <ambientLight intensity={0.5} />
-              <CustomOrbitControls />
-              <FPSControls />
+              {humanPlayerId !== null && !replay ? (
+                <HumanControls inputRef={humanInputRef} yawRef={viewYawRef} />
+              ) : (
+                <>
+                  <CustomOrbitControls />
+                  <FPSControls />
+                </>
+              )}
               {Array.isArray(allPlayerMeshes) && allPlayerMeshes.length > 0 && (
                 <EffectComposer>
                   <Outline
@@ -307,29 +565,113 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
               <Simulation
                 playerCount={playerCount}
                 setScores={setScores}
+                setPatchStats={setPatchStats}
+                setRoles={setRoles}
+                setRoleScores={setRoleScores}
+                setEnergyStats={setEnergyStats}
+                setDeaths={setDeaths}
+                setPredatorKills={setPredatorKills}
+                showFearMap={showFearMap}
                 isGameOver={isGameOver}
                 isSimulationRunning={isSimulationRunning}
                 foodAmount={foodAmount}
-                mapSize={MAP_SIZE}
-                onFoodDepleted={handleFoodDepleted}
+                playerStrategies={playerStrategies}
+                seed={seed}
+                foodDistribution={foodDistribution}
+                regrowth={regrowth}
+                timeLimit={timeLimit}
+                end={end}
+                social={social}
+                energy={energy}
+                foodValues={foodValues}
+                perception={perception}
+                predation={predation}
+                genomes={genomes}
+                engineRef={engineRef}
+                replay={replay}
+                replayOnly={loadedReplay !== null}
+                replayTime={replayTime}
+                replayPlaying={replayPlaying}
+                replaySpeed={replaySpeed}
+                setReplayTime={setReplayTime}
+                setReplayPlaying={setReplayPlaying}
+                playerColors={playerColors}
+                playerPerception={playerPerception}
+                physics={physics}
+                mapSize={mapSize}
+                onRaceEnd={handleRaceEnd}
+                setRaceTime={setRaceTime}
                 meshArrayRefs={meshArrayRefs}
                 followedPlayerId={followedPlayerId}
                 setFollowedPlayerId={setFollowedPlayerId}
-                runMode={runMode}
+                humanPlayerId={humanPlayerId}
+                humanInputRef={humanInputRef}
+                viewYawRef={viewYawRef}
+                paused={paused}
+                speed={speed}
+                pendingTicksRef={pendingTicksRef}
                 setFoodLeft={setFoodLeft}
+                setFoodHistory={setFoodHistory}
+                setAnalytics={setAnalytics}
               />
             </Canvas>
             {/* Blinking instructions prompt at bottom center */}
             <BlinkingInstructionsPrompt onClick={() => setShowInstructions(true)} />
+            {!replay && analytics.length > 0 && <AnalyticsPanel history={analytics} />}
+            {isSimulationRunning && !isGameOver && !replay && (
+              <SimulationControls
+                paused={paused}
+                speed={speed}
+                onPausedChange={setPaused}
+                onSpeedChange={setSpeed}
+                onStep={() => { pendingTicksRef.current += 1; }}
+              />
+            )}
+            {replay && (
+              <ReplayControls
+                duration={replay.duration}
+                time={replayTime}
+                playing={replayPlaying}
+                speed={replaySpeed}
+                onTimeChange={setReplayTime}
+                onPlayingChange={setReplayPlaying}
+                onSpeedChange={setReplaySpeed}
+                onSave={() => downloadText(`buffet-race-${replay.replay.config.seed}-replay.json`, JSON.stringify(replay.replay), 'application/json')}
+                onExit={exitReplay}
+              />
+            )}
             {/* Game Over Overlay */}
-            {isGameOver && (
-              <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900 bg-opacity-90 z-20">
+            {isGameOver && !replay && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900 bg-opacity-90 z-20 overflow-y-auto py-6">
                 <h1 className="text-4xl font-bold mb-4">Race Over!</h1>
+                {results?.end && <p className="mb-4 text-lg">{describeEnd(results.end, endSettings)}</p>}
+                {results && <RaceResults result={results} save={{ ...saveState, onSave: () => saveResults(results) }} />}
+                {roleScores.some(r => r.scrounger > 0) || roles.includes('scrounger') ? (
+                  <RoleBreakdown roles={roles} roleScores={roleScores} />
+                ) : null}
+                {energyStats.some(e => e !== null) && (
+                  <EnergyRanking energyStats={energyStats} playerStrategies={playerStrategies} roles={roles} />
+                )}
+                {evolution && (
+                  <>
+                    <p className="mb-3 text-lg">Generation {evolution.generation} done · breeding the next generation…</p>
+                    <EvolutionCharts history={evolution.history} />
+                  </>
+                )}
+                <TelemetryDownloads engineRef={engineRef} />
+                {engineRef.current?.replay && (
+                  <button
+                    onClick={watchReplay}
+                    className="px-6 py-3 mb-4 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg font-semibold transition-colors"
+                  >
+                    Watch Replay
+                  </button>
+                )}
                 <button
                   onClick={handlePlayAgain}
                   className="px-8 py-4 bg-green-600 hover:bg-green-700 rounded-lg text-xl font-semibold transition-colors"
                 >
-                  Play Again?
+                  {evolution ? 'Stop Evolving' : 'Play Again?'}
                 </button>
               </div>
             )}
@@ -345,6 +687,11 @@ const RaceSimulation: React.FC<RaceSimulationProps> = ({
 // --- Update Simulation to accept foodAmount and mapSize, and clamp player positions ---
 const TILE_COLS = 2; // Fewer, larger wall tiles
 const TILE_ROWS = 2;
+const WALL_SEED_SALT = 0x5a11;
+const MAX_FRAME_DELTA = 0.1; // seconds; longer frames (e.g. after the tab was hidden) are clipped
+const THIRD_PERSON_DISTANCE = 9; // camera distance behind your player
+const THIRD_PERSON_HEIGHT = 5;
+const THIRD_PERSON_LOOK_AHEAD = 6; // the camera aims this far in front of your player
 
 // Helper to clamp hue to [0, 1]
 // function clampHue(h: number) {
@@ -383,19 +730,58 @@ function InstancedFoodMesh({ items }: { items: FoodItem[] }) {
 const Simulation: React.FC<{
   playerCount: number,
   setScores: React.Dispatch<React.SetStateAction<number[]>>,
+  setPatchStats: React.Dispatch<React.SetStateAction<PatchStats[]>>,
+  setRoles: React.Dispatch<React.SetStateAction<ForagerRole[]>>,
+  setRoleScores: React.Dispatch<React.SetStateAction<Record<ForagerRole, number>[]>>,
+  setEnergyStats: React.Dispatch<React.SetStateAction<(EnergyStats | null)[]>>,
+  setDeaths: React.Dispatch<React.SetStateAction<(Player['causeOfDeath'] | null)[]>>,
+  setPredatorKills: React.Dispatch<React.SetStateAction<number | null>>,
+  showFearMap: boolean,
   isGameOver: boolean,
   isSimulationRunning: boolean,
   foodAmount: number,
+  playerStrategies: StrategyId[],
+  seed: number,
+  foodDistribution: FoodDistributionSettings,
+  regrowth: RegrowthSettings,
+  timeLimit: number, // seconds
+  end: Partial<EndSettings>,
+  social: Partial<SocialSettings>,
+  energy: Partial<EnergySettings>,
+  foodValues: Partial<Record<FoodType, Partial<FoodValue>>>,
+  perception: Partial<PerceptionSettings>,
+  predation: Partial<PredationSettings>,
+  genomes: Genome[] | null,
+  engineRef: React.MutableRefObject<SimulationEngine | null>,
+  replay: ReplayPlayback | null,
+  replayOnly: boolean, // showing a loaded replay file: no live engine
+  replayTime: number,
+  replayPlaying: boolean,
+  replaySpeed: number,
+  setReplayTime: React.Dispatch<React.SetStateAction<number>>,
+  setReplayPlaying: (playing: boolean) => void,
+  playerColors: (string | null)[],
+  playerPerception: Partial<PerceptionSettings>[],
+  physics: Partial<PhysicsSettings>,
   mapSize: number,
-  onFoodDepleted: () => void,
+  onRaceEnd: (end: RaceEnd) => void,
+  setRaceTime: (time: number) => void,
   meshArrayRefs: React.MutableRefObject<THREE.Mesh[]>[],
   followedPlayerId: number | null,
   setFollowedPlayerId: (id: number) => void,
-  runMode: boolean,
+  humanPlayerId: number | null, // steered from humanInputRef in a live race
+  humanInputRef: React.MutableRefObject<HumanInput>,
+  viewYawRef: React.MutableRefObject<number>,
+  paused: boolean,
+  speed: number,
+  pendingTicksRef: React.MutableRefObject<number>,
   setFoodLeft: React.Dispatch<React.SetStateAction<number>>,
-}> = ({ playerCount, setScores, isGameOver, isSimulationRunning, foodAmount, mapSize, onFoodDepleted, meshArrayRefs, followedPlayerId, setFollowedPlayerId, runMode, setFoodLeft }) => {
+  setFoodHistory: React.Dispatch<React.SetStateAction<FoodHistorySample[]>>,
+  setAnalytics: React.Dispatch<React.SetStateAction<AnalyticsSample[]>>,
+}> = ({ playerCount, setScores, setPatchStats, setRoles, setRoleScores, setEnergyStats, setDeaths, setPredatorKills, showFearMap, isGameOver, isSimulationRunning, foodAmount, playerStrategies, seed, foodDistribution, regrowth, timeLimit, end, social, energy, foodValues, perception, predation, genomes, engineRef, replay, replayOnly, replayTime, replayPlaying, replaySpeed, setReplayTime, setReplayPlaying, playerColors, playerPerception, physics, mapSize, onRaceEnd, setRaceTime, meshArrayRefs, followedPlayerId, setFollowedPlayerId, humanPlayerId, humanInputRef, viewYawRef, paused, speed, pendingTicksRef, setFoodLeft, setFoodHistory, setAnalytics }) => {
   const [players, setPlayers] = useState<Player[]>([]);
   const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
+  const [predators, setPredators] = useState<Predator[]>([]);
 
   // Load backdrop texture
   const backdropTexture = useTexture('/models/backdrop.png');
@@ -406,8 +792,9 @@ const Simulation: React.FC<{
     grassTexture.wrapS = grassTexture.wrapT = THREE.RepeatWrapping;
     grassTexture.repeat.set(16, 16);
   }
-  // Memoize wall tile data for consistency
+  // Memoize wall tile data for consistency; seeded separately so visuals never shift the race
   const wallTiles = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, WALL_SEED_SALT));
     function makeTiles() {
       const tiles = [];
       for (let row = 0; row < TILE_ROWS; row++) {
@@ -416,10 +803,10 @@ const Simulation: React.FC<{
           const flipX = (col + row) % 2 === 0;
           const flipY = (col + row) % 2 === 1;
           // Random zoom: 0.7 to 1.3
-          const zoom = 0.7 + Math.random() * 0.6;
+          const zoom = 0.7 + random() * 0.6;
           // Random offset for zoomed tile (allow full vertical range for clouds)
-          const offsetX = Math.random() * (1 - 1 / zoom);
-          const offsetY = Math.random() * (1 - 1 / zoom);
+          const offsetX = random() * (1 - 1 / zoom);
+          const offsetY = random() * (1 - 1 / zoom);
           tiles.push({ row, col, flipX, flipY, zoom, offsetX, offsetY });
         }
       }
@@ -431,88 +818,117 @@ const Simulation: React.FC<{
       left: makeTiles(),
       right: makeTiles(),
     };
-  }, []);
+  }, [seed]);
 
-  // Initialize simulation
+  // Initialize simulation: the engine owns world state, React state only mirrors it for rendering
   useEffect(() => {
-    // Create players
-    const newPlayers: Player[] = [];
-    const playerColors = [
-      '#FF5733', '#33FF57', '#3357FF', '#F3FF33', 
-      '#FF33F3', '#33FFF3', '#F333FF', '#FFA533'
-    ];
-    for (let i = 0; i < playerCount; i++) {
-      const angle = (i / playerCount) * Math.PI * 2;
-      const radius = mapSize * 0.75;
-      newPlayers.push({
-        id: i,
-        position: new THREE.Vector3(
-          Math.cos(angle) * radius,
-          0.5,
-          Math.sin(angle) * radius
-        ),
-        quaternion: new THREE.Quaternion().setFromAxisAngle(
-          new THREE.Vector3(0, 1, 0),
-          -angle
-        ),
-        velocity: new THREE.Vector3(0, 0, 0),
-        score: 0,
-        color: playerColors[i % playerColors.length],
-        isJumping: false,
-        verticalVelocity: 0,
-      });
-    }
-    setPlayers(newPlayers);
-    // Create food items in 3D space (on ground)
-    const newFoodItems: FoodItem[] = [];
-    const foodTypes: ('cube' | 'sphere' | 'triangle')[] = ['cube', 'sphere', 'triangle'];
-    const foodColors = ['#FF9999', '#99FF99', '#9999FF', '#FFFF99', '#FF99FF', '#99FFFF'];
-    for (let i = 0; i < foodAmount; i++) {
-      // Clamp spawn to inside the ground plane (avoid edges)
-      const min = -mapSize + 0.5;
-      const max = mapSize - 0.5;
-      newFoodItems.push({
-        id: i,
-        position: new THREE.Vector3(
-          Math.random() * (max - min) + min, // x: min to max
-          0.5,
-          Math.random() * (max - min) + min // z: min to max
-        ),
-        type: foodTypes[Math.floor(Math.random() * foodTypes.length)],
-        consumed: false,
-        color: foodColors[Math.floor(Math.random() * foodColors.length)]
-      });
+    if (replayOnly) return;
+    const engine = new SimulationEngine({
+      playerCount,
+      foodAmount,
+      mapSize,
+      playerStrategies,
+      playerColors,
+      seed,
+      foodDistribution,
+      regrowth,
+      timeLimit,
+      end,
+      social,
+      energy,
+      foodValues,
+      perception,
+      playerPerception,
+      predation,
+      physics,
+      genomes: genomes ?? undefined,
+      // Enough fixed ticks per frame for the fastest speed; step() stops at the tick the race ends
+      maxTicksPerStep: Math.ceil((MAX_FRAME_DELTA * MAX_SIM_SPEED) / DEFAULT_FIXED_DELTA),
+      telemetry: true,
+      replay: true,
+    });
+    engineRef.current = engine;
+    // You start out facing the centre of the arena, like the bots
+    const you = humanPlayerId !== null ? engine.players[humanPlayerId] : undefined;
+    if (you) viewYawRef.current = Math.atan2(-you.position.z, -you.position.x);
+    setPlayers(engine.players);
+    setFoodItems(engine.foodItems);
+    setPredators(engine.predators);
+    setFoodHistory(engine.foodHistory.slice());
+    setAnalytics(engine.analytics.slice());
+  }, [playerCount, foodAmount, mapSize, playerStrategies, playerColors, seed, foodDistribution, regrowth, timeLimit, end, social, energy, foodValues, perception, playerPerception, predation, physics, genomes, engineRef, replayOnly, humanPlayerId, viewYawRef, setFoodHistory, setAnalytics]);
+
+  // Entering a replay hides live-only stats; leaving it shows the finished race again
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (replay) {
+      setPatchStats([]);
+      setEnergyStats([]);
+    } else if (engine) {
+      setPlayers(engine.players);
+      setFoodItems(engine.foodItems);
+      setPredators(engine.predators);
     }
-    setFoodItems(newFoodItems);
-  }, [playerCount, foodAmount, mapSize]);
+  }, [replay, engineRef, setPatchStats, setEnergyStats]);
 
   // Game loop
   useFrame((_, delta) => {
-    if (players.length === 0 || foodItems.length === 0) return;
-    let updatedPlayers = players;
-    let updatedFoodItems = foodItems;
+    if (replay) {
+      // Replays advance their own clock and show the recorded frame at it
+      if (replayPlaying) {
+        const next = Math.min(replay.duration, replayTime + delta * replaySpeed);
+        setReplayTime(next);
+        if (next >= replay.duration) setReplayPlaying(false);
+      }
+      const index = replay.frameIndex(replayTime);
+      const framePlayers = replay.playersAt(index);
+      setPlayers(framePlayers);
+      setPredators(replay.predatorsAt(index));
+      setFoodItems(replay.foodAt(replayTime));
+      setScores(framePlayers.map(p => p.score));
+      setDeaths(framePlayers.map(p => (isAlive(p) ? null : p.causeOfDeath ?? 'starvation')));
+      setFoodLeft(replay.foodLeftAt(replayTime));
+      setRaceTime(replayTime);
+      return;
+    }
+    const engine = engineRef.current;
+    if (!engine || engine.players.length === 0 || engine.foodItems.length === 0) return;
     if (isSimulationRunning && !isGameOver) {
-      // Only update positions and food if the game is running
-      const speedMultiplier = runMode ? 8 : 1;
-      const result = updateBuffetPlayers(players, foodItems, delta * speedMultiplier);
-      updatedPlayers = result.players;
-      updatedFoodItems = result.foodItems;
-      // Clamp player positions to map boundaries
-      updatedPlayers = updatedPlayers.map(p => {
-        p.position.x = Math.max(-mapSize, Math.min(mapSize, p.position.x));
-        p.position.z = Math.max(-mapSize, Math.min(mapSize, p.position.z));
-        return p;
-      });
-      setPlayers(updatedPlayers);
-      setFoodItems(updatedFoodItems);
-      // If all food is consumed, trigger game over
-      if (updatedFoodItems.every(item => item.consumed)) {
-        onFoodDepleted();
+      if (humanPlayerId !== null) steerHumans(engine.players, humanInputRef.current);
+      // Only advance the engine if the game is running; while paused, only by requested single ticks
+      let ticks = 0;
+      if (paused) {
+        for (; ticks < pendingTicksRef.current && !engine.end; ticks++) engine.tick();
+      } else if (!engine.end) {
+        ticks = engine.step(Math.min(delta, MAX_FRAME_DELTA) * speed);
+      }
+      pendingTicksRef.current = 0;
+      if (ticks > 0) {
+        setPlayers(engine.players);
+        setFoodItems(engine.foodItems);
+        setPredators(engine.predators);
       }
+      if (engine.end) onRaceEnd(engine.end);
     }
+    setRaceTime(engine.time);
     // Always update scores for the overlay
-    setScores(updatedPlayers.map(p => p.score));
-    setFoodLeft(updatedFoodItems.filter((f: FoodItem) => !f.consumed).length);
+    setScores(engine.players.map(p => p.score));
+    setPatchStats(engine.players.map(p => ({
+      residence: p.patchEnteredAt !== undefined ? engine.time - p.patchEnteredAt : null,
+      gainRate: p.gainRate ?? 0,
+    })));
+    setRoles(engine.players.map(p => p.role ?? 'producer'));
+    setRoleScores(engine.players.map(p => p.roleScores ?? { producer: p.score, scrounger: 0 }));
+    setEnergyStats(engine.players.map(p => (p.energy === undefined ? null : {
+      energy: p.energy,
+      alive: isAlive(p),
+      netRate: netEnergyRate(p, engine.time),
+    })));
+    setDeaths(engine.players.map(p => (isAlive(p) ? null : p.causeOfDeath ?? 'starvation')));
+    setPredatorKills(engine.predators.length > 0 ? engine.predators.reduce((sum, p) => sum + p.kills, 0) : null);
+    setFoodLeft(engine.foodLeft);
+    setFoodHistory(prev => (prev.length === engine.foodHistory.length ? prev : engine.foodHistory.slice()));
+    setAnalytics(prev => (prev.length === engine.analytics.length ? prev : engine.analytics.slice()));
   });
 
   // Camera follow logic
@@ -521,9 +937,17 @@ const Simulation: React.FC<{
     if (followedPlayerId !== null) {
       const player = players.find(p => p.id === followedPlayerId);
       if (player) {
+        const target = player.position.clone();
+        if (player.id === humanPlayerId && !replay) {
+          // Third person: close behind your player, looking the way you face
+          const forward = new THREE.Vector3(Math.cos(viewYawRef.current), 0, Math.sin(viewYawRef.current));
+          const offset = forward.clone().multiplyScalar(-THIRD_PERSON_DISTANCE).setY(THIRD_PERSON_HEIGHT);
+          camera.position.lerp(target.clone().add(offset), 0.1);
+          camera.lookAt(target.addScaledVector(forward, THIRD_PERSON_LOOK_AHEAD));
+          return;
+        }
         // Camera offset: behind and above the player
         const offset = new THREE.Vector3(0, 30, 40);
-        const target = player.position.clone();
         camera.position.lerp(target.clone().add(offset), 0.1);
         camera.lookAt(target);
       }
@@ -684,6 +1108,11 @@ const Simulation: React.FC<{
           onClick={() => setFollowedPlayerId(player.id)}
         />
       ))}
+      {/* Predators and the landscape of fear they leave behind */}
+      {predators.map(predator => (
+        <PredatorMesh key={predator.id} predator={predator} />
+      ))}
+      {predators.length > 0 && showFearMap && <FearHeatmap engineRef={engineRef} mapSize={mapSize} />}
       {/* Food Items: instanced for 15000+, normal for less */}
       {foodItems.length >= 15000 ? (
         <InstancedFoodMesh items={foodItems} />
@@ -759,6 +1188,65 @@ function FPSControls() {
   return null;
 }
 
+// HumanControls: steer your player relative to the way you face. WASD/arrows walk,
+// Q/E turn, space jumps; on a gamepad the left stick walks, the right stick turns and A jumps.
+const HUMAN_TURN_RATE = 2.5; // radians/sec at full turn
+const GAMEPAD_DEADZONE = 0.15;
+function HumanControls({ inputRef, yawRef }: { inputRef: React.MutableRefObject<HumanInput>; yawRef: React.MutableRefObject<number> }) {
+  const keys = useRef(new Set<string>());
+  const jumpPressed = useRef(false);
+  const padJumpHeld = useRef(false);
+  useEffect(() => {
+    const down = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault(); // not a click on whichever button has focus
+        if (!e.repeat) jumpPressed.current = true;
+      }
+      keys.current.add(e.code);
+    };
+    const up = (e: KeyboardEvent) => {
+      keys.current.delete(e.code);
+    };
+    // Keys released while the window is in the background never send keyup
+    const blur = () => keys.current.clear();
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', blur);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', blur);
+    };
+  }, []);
+  useFrame((_, delta) => {
+    const held = (...codes: string[]) => (codes.some(code => keys.current.has(code)) ? 1 : 0);
+    let forward = held('KeyW', 'ArrowUp') - held('KeyS', 'ArrowDown');
+    let strafe = held('KeyD', 'ArrowRight') - held('KeyA', 'ArrowLeft');
+    let turn = held('KeyE') - held('KeyQ');
+    let jump = jumpPressed.current;
+    jumpPressed.current = false;
+    // Standard gamepad mapping: axes 0/1 left stick, axis 2 right stick x, button 0 is A
+    const pad = Array.from(navigator.getGamepads?.() ?? []).find(g => g?.connected);
+    if (pad) {
+      const axis = (i: number) => (Math.abs(pad.axes[i] ?? 0) > GAMEPAD_DEADZONE ? pad.axes[i] : 0);
+      forward -= axis(1);
+      strafe += axis(0);
+      turn += axis(2);
+      const padJump = pad.buttons[0]?.pressed ?? false;
+      if (padJump && !padJumpHeld.current) jump = true;
+      padJumpHeld.current = padJump;
+    }
+    yawRef.current += Math.max(-1, Math.min(1, turn)) * HUMAN_TURN_RATE * delta;
+    // Forward is the way you face; right is a quarter turn clockwise seen from above
+    const cos = Math.cos(yawRef.current);
+    const sin = Math.sin(yawRef.current);
+    const move = new THREE.Vector3(forward * cos - strafe * sin, 0, forward * sin + strafe * cos);
+    if (move.lengthSq() > 1) move.normalize();
+    inputRef.current = { x: move.x, z: move.z, jump };
+  });
+  return null;
+}
+
 // Custom OrbitControls component with WASD/arrow key panning
 function CustomOrbitControls() {
   const { camera, gl } = useThree();
@@ -787,6 +1275,134 @@ function CustomOrbitControls() {
   );
 }
 
+// Scores are whole numbers unless food values are fractional
+function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+}
+
+// Final producer-scrounger payoffs. Intake is credited to the role a player had when
+// it ate, so the table stays meaningful when roles evolve during the race.
+function RoleBreakdown({ roles, roleScores }: { roles: ForagerRole[]; roleScores: Record<ForagerRole, number>[] }) {
+  const total = roleScores.reduce((sum, r) => sum + r.producer + r.scrounger, 0) || 1;
+  const rows = (['producer', 'scrounger'] as ForagerRole[]).map(role => {
+    const players = roles.filter(r => r === role).length;
+    const intake = roleScores.reduce((sum, r) => sum + r[role], 0);
+    return { role, players, intake };
+  });
+  return (
+    <table className="mb-6 text-sm" style={{ borderCollapse: 'collapse' }}>
+      <thead>
+        <tr style={{ color: '#9ca3af' }}>
+          <th className="px-3 text-left">Role</th>
+          <th className="px-3 text-right">Players at end</th>
+          <th className="px-3 text-right">Intake</th>
+          <th className="px-3 text-right">Share</th>
+          <th className="px-3 text-right">Per player</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ role, players, intake }) => (
+          <tr key={role}>
+            <td className="px-3 capitalize">{role}s</td>
+            <td className="px-3 text-right font-mono">{players}</td>
+            <td className="px-3 text-right font-mono">{formatScore(intake)}</td>
+            <td className="px-3 text-right font-mono">{((intake / total) * 100).toFixed(0)}%</td>
+            <td className="px-3 text-right font-mono">{players > 0 ? (intake / players).toFixed(1) : '–'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Players ranked by net energy intake rate, the currency foraging theory says they maximise
+function EnergyRanking({ energyStats, playerStrategies, roles }: {
+  energyStats: (EnergyStats | null)[];
+  playerStrategies: StrategyId[];
+  roles: ForagerRole[];
+}) {
+  const ranked = energyStats
+    .map((stats, index) => ({ stats, index }))
+    .filter((entry): entry is { stats: EnergyStats; index: number } => entry.stats !== null)
+    .sort((a, b) => b.stats.netRate - a.stats.netRate);
+  return (
+    <table className="mb-6 text-sm" style={{ borderCollapse: 'collapse' }}>
+      <thead>
+        <tr style={{ color: '#9ca3af' }}>
+          <th className="px-3 text-left">#</th>
+          <th className="px-3 text-left">Player</th>
+          <th className="px-3 text-right">Net energy/s</th>
+          <th className="px-3 text-right">Energy left</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ranked.map(({ stats, index }, rank) => (
+          <tr key={index}>
+            <td className="px-3 font-mono">{rank + 1}</td>
+            <td className="px-3">
+              P{index + 1} {roles[index] === 'scrounger' ? 'Scrounger' : getForagingStrategy(playerStrategies[index]).label}
+            </td>
+            <td className="px-3 text-right font-mono">{stats.netRate.toFixed(2)}</td>
+            <td className="px-3 text-right font-mono">{stats.alive ? stats.energy.toFixed(0) : '💀'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function downloadText(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Per-tick player samples and consumption events of the finished race
+function TelemetryDownloads({ engineRef }: { engineRef: React.MutableRefObject<SimulationEngine | null> }) {
+  const engine = engineRef.current;
+  const telemetry = engine?.telemetry;
+  if (!engine || !telemetry) return null;
+  const name = `buffet-race-${engine.config.seed}`;
+  const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm';
+  return (
+    <div className="flex items-center gap-x-2 mb-6 text-sm">
+      <span style={{ color: '#9ca3af' }}>
+        Telemetry ({telemetry.samples.length} samples{telemetry.sampleInterval > 1 && ` every ${telemetry.sampleInterval} ticks`}, {telemetry.consumptions.length} items eaten
+        {telemetry.droppedConsumptions > 0 && `, ${telemetry.droppedConsumptions} more not recorded`}):
+      </span>
+      <button className={buttonClass} onClick={() => downloadText(`${name}-ticks.csv`, samplesToCsv(telemetry), 'text/csv')}>
+        Ticks CSV
+      </button>
+      <button className={buttonClass} onClick={() => downloadText(`${name}-consumption.csv`, consumptionsToCsv(telemetry), 'text/csv')}>
+        Consumption CSV
+      </button>
+      <button className={buttonClass} onClick={() => downloadText(`${name}.json`, telemetryToJson(telemetry, engine.config), 'application/json')}>
+        JSON
+      </button>
+    </div>
+  );
+}
+
+// Food-left history as a tiny inline line chart for the scoreboard
+function FoodHistorySparkline({ history }: { history: FoodHistorySample[] }) {
+  if (history.length < 2) return null;
+  const width = 60;
+  const height = 16;
+  const maxTime = history[history.length - 1].time || 1;
+  const maxFood = Math.max(1, ...history.map(h => h.foodLeft));
+  const points = history
+    .map(h => `${((h.time / maxTime) * width).toFixed(1)},${(height - (h.foodLeft / maxFood) * height).toFixed(1)}`)
+    .join(' ');
+  return (
+    <svg width={width} height={height} style={{ marginLeft: 4 }} aria-label="food left over time">
+      <polyline points={points} fill="none" stroke="#43a047" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
 // Custom hook for blinking prompt
 function useBlinkingPrompt(interval = 30000, visibleDuration = 10000) {
   const [visible, setVisible] = React.useState(true);
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  DEFAULT_REGROWTH_PARAMS,
+  listRegrowthModels,
+  type RegrowthParams,
+  type RegrowthSettings,
+} from './buffetregrowth';
+
+interface RegrowthControlsProps {
+  value: RegrowthSettings;
+  onChange: (settings: RegrowthSettings) => void;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const selectClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for food regrowth
+const RegrowthControls: React.FC<RegrowthControlsProps> = ({ value, onChange }) => {
+  const params = { ...DEFAULT_REGROWTH_PARAMS, ...value.params };
+  const setParam = (key: keyof RegrowthParams, paramValue: number) => {
+    onChange({ ...value, params: { ...value.params, [key]: paramValue } });
+  };
+  const numberInput = (key: keyof RegrowthParams, label: string, min: number, max: number, step: number) => (
+    <>
+      <label htmlFor={key} className={labelClass}>{label}:</label>
+      <input
+        id={key}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={params[key]}
+        onChange={(e) => setParam(key, Math.max(min, Math.min(max, parseFloat(e.target.value) || min)))}
+        className={`${inputClass} w-12`}
+        style={{ height: 28 }}
+      />
+    </>
+  );
+
+  return (
+    <>
+      <label htmlFor="regrowth" className={labelClass}>Regrowth:</label>
+      <select
+        id="regrowth"
+        value={value.id}
+        onChange={(e) => onChange({ ...value, id: e.target.value })}
+        className={selectClass}
+        style={{ height: 28 }}
+      >
+        {listRegrowthModels().map(model => (
+          <option key={model.id} value={model.id} title={model.description}>{model.label}</option>
+        ))}
+      </select>
+      {value.id === 'respawn' && numberInput('respawnDelay', 'Delay s', 1, 600, 1)}
+      {value.id === 'logistic' && numberInput('growthRate', 'Rate r', 0.01, 5, 0.01)}
+      {value.id === 'seasonal' && (
+        <>
+          {numberInput('pulsePeriod', 'Season s', 1, 600, 1)}
+          {numberInput('pulseFraction', 'Pulse', 0.05, 1, 0.05)}
+        </>
+      )}
+    </>
+  );
+};
+
+export default RegrowthControls;
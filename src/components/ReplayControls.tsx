@@ -0,0 +1,72 @@
+import React from 'react';
+
+interface ReplayControlsProps {
+  duration: number; // seconds
+  time: number;
+  playing: boolean;
+  speed: number;
+  onTimeChange: (time: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onSave: () => void;
+  onExit: () => void;
+}
+
+const REPLAY_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4, 8];
+const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm';
+
+// Transport bar shown over the canvas while a replay is playing
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  duration,
+  time,
+  playing,
+  speed,
+  onTimeChange,
+  onPlayingChange,
+  onSpeedChange,
+  onSave,
+  onExit,
+}) => {
+  const togglePlaying = () => {
+    // Play from the start again once the end is reached
+    if (!playing && time >= duration) onTimeChange(0);
+    onPlayingChange(!playing);
+  };
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 z-30 flex items-center gap-x-3 px-4 py-2 rounded-lg text-white"
+      style={{ transform: 'translateX(-50%)', background: 'rgba(17,24,39,0.85)', width: 'min(720px, 90vw)' }}
+    >
+      <button className={buttonClass} onClick={togglePlaying} title={playing ? 'Pause' : 'Play'}>
+        {playing ? '⏸' : '▶'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={Math.min(time, duration)}
+        onChange={(e) => onTimeChange(parseFloat(e.target.value))}
+        className="flex-1"
+        aria-label="Replay time"
+      />
+      <span className="font-mono text-xs whitespace-nowrap">
+        {time.toFixed(1)} / {duration.toFixed(1)} s
+      </span>
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+        className="rounded bg-gray-700 text-white text-xs px-1 py-1"
+        title="Playback speed"
+      >
+        {REPLAY_SPEEDS.map(s => (
+          <option key={s} value={s}>{s}×</option>
+        ))}
+      </select>
+      <button className={buttonClass} onClick={onSave} title="Download this replay as JSON">Save</button>
+      <button className={buttonClass} onClick={onExit}>Exit</button>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { parseReplay, type Replay } from './buffetreplay';
+
+interface ReplayLoaderProps {
+  onLoad: (replay: Replay) => void;
+  disabledReason?: string | null; // disables the button and says why
+}
+
+const buttonClass = 'ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400';
+const buttonStyle = { height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 };
+
+// Parameter-bar button to open a saved replay file
+const ReplayLoader: React.FC<ReplayLoaderProps> = ({ onLoad, disabledReason = null }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const replay = parseReplay(JSON.parse(await file.text()));
+      setError(null);
+      onLoad(replay);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <>
+      <label
+        className={`${buttonClass} flex items-center ${disabledReason ? 'opacity-40' : 'cursor-pointer'}`}
+        style={buttonStyle}
+        title={disabledReason ?? 'Watch a saved replay'}
+      >
+        Load replay
+        <input type="file" accept="application/json,.json" onChange={handleFile} disabled={disabledReason !== null} className="hidden" />
+      </label>
+      {error && <span className="text-xs ml-1" style={{ color: '#d32f2f' }}>{error}</span>}
+    </>
+  );
+};
+
+export default ReplayLoader;
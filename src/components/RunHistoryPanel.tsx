@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { canRerun, deleteRun, loadRunHistory, meanScore, scenarioDiff, type RunRecord } from './buffethistory';
+import { DEFAULT_END_SETTINGS, describeEnd, formatClock } from './buffetend';
+import { getForagingStrategy, listForagingStrategies } from './buffetstrategies';
+import { getFoodDistribution } from './buffetfood';
+import RaceResults from './RaceResults';
+
+interface RunHistoryPanelProps {
+  onRerun: (run: RunRecord) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'newest' | 'best' | 'mean';
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-xs';
+const labelClass = 'text-xs mr-1 whitespace-nowrap text-gray-800';
+const buttonClass = 'ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400';
+const buttonStyle = { height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 };
+
+const SORTS: Record<SortKey, (a: RunRecord, b: RunRecord) => number> = {
+  newest: (a, b) => b.savedAt - a.savedAt,
+  best: (a, b) => (b.result.players[0]?.score ?? 0) - (a.result.players[0]?.score ?? 0),
+  mean: (a, b) => meanScore(b.result) - meanScore(a.result),
+};
+
+function endText(run: RunRecord): string {
+  return run.result.end ? describeEnd(run.result.end, { ...DEFAULT_END_SETTINGS, ...run.scenario.end }) : '–';
+}
+
+// Everything the text filter looks at
+function searchText(run: RunRecord): string {
+  return [
+    run.scenario.name,
+    run.result.seed,
+    getFoodDistribution(run.scenario.food.distribution.id).label,
+    ...run.scenario.agents.map(agent => getForagingStrategy(agent.strategy).label),
+    endText(run),
+  ].join(' ').toLowerCase();
+}
+
+function runLabel(run: RunRecord): string {
+  return `${new Date(run.savedAt).toLocaleString()} · seed ${run.result.seed}`;
+}
+
+// The settings two runs differ in
+function SettingsDiff({ a, b }: { a: RunRecord; b: RunRecord }) {
+  const diff = scenarioDiff(a.scenario, b.scenario);
+  if (diff.length === 0) return <p className="text-xs text-gray-500 mb-3">Both runs used the same settings.</p>;
+  return (
+    <table className="text-xs mb-3" style={{ borderCollapse: 'collapse' }}>
+      <thead>
+        <tr className="text-gray-500">
+          <th className="px-2 text-left">Setting</th>
+          <th className="px-2 text-left">A</th>
+          <th className="px-2 text-left">B</th>
+        </tr>
+      </thead>
+      <tbody>
+        {diff.map(row => (
+          <tr key={row.path} className="border-t border-gray-200">
+            <td className="px-2 font-mono">{row.path}</td>
+            <td className="px-2 font-mono">{row.a}</td>
+            <td className="px-2 font-mono">{row.b}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Modal over the top bar: saved runs as a sortable leaderboard with filters,
+// side-by-side comparison of two runs, re-running and deleting
+const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ onRerun, onClose }) => {
+  const [runs, setRuns] = useState<RunRecord[]>(loadRunHistory);
+  const [query, setQuery] = useState('');
+  const [strategy, setStrategy] = useState('');
+  const [sort, setSort] = useState<SortKey>('newest');
+  const [compare, setCompare] = useState<string[]>([]); // ids, at most two
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = runs
+    .filter(run => !query || searchText(run).includes(query.toLowerCase()))
+    .filter(run => !strategy || run.scenario.agents.some(agent => agent.strategy === strategy))
+    .sort(SORTS[sort]);
+  const compared = compare.map(id => runs.find(run => run.id === id)).filter((run): run is RunRecord => run !== undefined);
+
+  const toggleCompare = (id: string) => {
+    setCompare(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id].slice(-2)));
+  };
+  const remove = (id: string) => {
+    try {
+      setRuns(deleteRun(id));
+      setCompare(prev => prev.filter(c => c !== id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center" style={{ background: 'rgba(0,0,0,0.5)' }}>
+      <div className="bg-white text-gray-900 rounded-lg shadow-lg p-4 overflow-auto" style={{ maxWidth: '95vw', maxHeight: '90vh', minWidth: 560 }}>
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-lg font-bold">Run history</h2>
+          <button className={buttonClass} style={buttonStyle} onClick={onClose}>Close</button>
+        </div>
+        <div className="flex flex-wrap items-center gap-y-1 mb-3">
+          <label className={labelClass} htmlFor="historyQuery">Filter:</label>
+          <input id="historyQuery" className={inputClass} value={query} onChange={(e) => setQuery(e.target.value)} placeholder="seed, strategy, layout…" style={{ height: 28 }} />
+          <label className={`${labelClass} ml-2`} htmlFor="historyStrategy">Strategy:</label>
+          <select id="historyStrategy" className={inputClass} value={strategy} onChange={(e) => setStrategy(e.target.value)} style={{ height: 28 }}>
+            <option value="">Any</option>
+            {listForagingStrategies().map(s => (
+              <option key={s.id} value={s.id}>{s.label}</option>
+            ))}
+          </select>
+          <label className={`${labelClass} ml-2`} htmlFor="historySort">Sort:</label>
+          <select id="historySort" className={inputClass} value={sort} onChange={(e) => setSort(e.target.value as SortKey)} style={{ height: 28 }}>
+            <option value="newest">Newest first</option>
+            <option value="best">Best winning score</option>
+            <option value="mean">Best mean score</option>
+          </select>
+          <span className="text-xs ml-2 text-gray-500">{visible.length} of {runs.length} runs · tick two to compare</span>
+        </div>
+        {error && <p className="text-xs mb-2" style={{ color: '#d32f2f' }}>{error}</p>}
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No runs yet. Finished races are saved here automatically.</p>
+        ) : (
+          <table className="text-xs mb-3" style={{ borderCollapse: 'collapse' }}>
+            <thead>
+              <tr className="text-gray-500">
+                <th className="px-2" />
+                <th className="px-2 text-left">Saved</th>
+                <th className="px-2 text-right">Seed</th>
+                <th className="px-2 text-left">Players</th>
+                <th className="px-2 text-left">Food</th>
+                <th className="px-2 text-left">Ended</th>
+                <th className="px-2 text-right">Time</th>
+                <th className="px-2 text-left">Winner</th>
+                <th className="px-2 text-right">Mean</th>
+                <th className="px-2 text-right">Gini</th>
+                <th className="px-2 text-right">Eaten</th>
+                <th className="px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(run => {
+                const winner = run.result.players[0];
+                return (
+                  <tr key={run.id} className="border-t border-gray-200">
+                    <td className="px-2">
+                      <input type="checkbox" checked={compare.includes(run.id)} onChange={() => toggleCompare(run.id)} aria-label="Compare" />
+                    </td>
+                    <td className="px-2 whitespace-nowrap">{new Date(run.savedAt).toLocaleString()}</td>
+                    <td className="px-2 text-right font-mono">{run.result.seed}</td>
+                    <td className="px-2">{run.scenario.agents.map(agent => getForagingStrategy(agent.strategy).label).join(', ')}</td>
+                    <td className="px-2 whitespace-nowrap">{run.scenario.food.amount} · {getFoodDistribution(run.scenario.food.distribution.id).label}</td>
+                    <td className="px-2">{endText(run)}</td>
+                    <td className="px-2 text-right font-mono">{formatClock(run.result.duration)}</td>
+                    <td className="px-2 whitespace-nowrap">
+                      {winner && (
+                        <>
+                          <span style={{ color: winner.color }}>●</span> P{winner.id + 1} {winner.score.toFixed(0)}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-2 text-right font-mono">{meanScore(run.result).toFixed(1)}</td>
+                    <td className="px-2 text-right font-mono">{run.result.gini.toFixed(2)}</td>
+                    <td className="px-2 text-right font-mono">{Math.round(run.result.foodEaten * 100)}%</td>
+                    <td className="px-2 whitespace-nowrap">
+                      <button
+                        className={buttonClass}
+                        style={buttonStyle}
+                        onClick={() => onRerun(run)}
+                        disabled={!canRerun(run)}
+                        title={canRerun(run)
+                          ? "Load this run's settings and race them again with the same seed"
+                          : `Generation ${run.generation} raced evolved players that cannot be recreated`}
+                      >
+                        Rerun
+                      </button>
+                      <button className={buttonClass} style={buttonStyle} onClick={() => remove(run.id)}>Delete</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {compared.length === 2 && (
+          <div>
+            <h3 className="text-sm font-bold mb-2">Comparison</h3>
+            <SettingsDiff a={compared[0]} b={compared[1]} />
+            <div className="flex flex-row gap-x-4 items-start">
+              {compared.map((run, i) => (
+                <div key={run.id}>
+                  <p className="text-xs font-bold mb-1">{i === 0 ? 'A' : 'B'}: {runLabel(run)}</p>
+                  <p className="text-xs text-gray-500 mb-1">{endText(run)} · {formatClock(run.result.duration)}</p>
+                  <RaceResults result={run.result} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunHistoryPanel;
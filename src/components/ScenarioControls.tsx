@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { parseScenario, type Scenario } from './buffetscenario';
+
+interface ScenarioControlsProps {
+  value: Scenario; // the setup currently in the top bar
+  hash: string | null; // value as a URL hash; null when it is too big for a link
+  onChange: (scenario: Scenario) => void;
+}
+
+const buttonClass = 'ml-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-900 border border-gray-400';
+const buttonStyle = { height: 28, padding: '0 6px', minWidth: 0, lineHeight: 1.1 };
+
+// Parameter-bar buttons to export the current setup as a scenario file, import one, or share it as a link
+const ScenarioControls: React.FC<ScenarioControlsProps> = ({ value, hash, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const exportScenario = () => {
+    const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `buffet-scenario-${value.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyLink = async () => {
+    if (!hash) return;
+    const link = `${window.location.origin}${window.location.pathname}${hash}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+      setError(null);
+    } catch {
+      setError('Could not copy; copy the address bar instead');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      onChange(parseScenario(JSON.parse(await file.text())));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <>
+      <span className="text-xs ml-2 mr-1 whitespace-nowrap text-gray-800">Scenario:</span>
+      <button type="button" className={buttonClass} style={buttonStyle} onClick={exportScenario} title="Download every setting above as a scenario file">
+        Export
+      </button>
+      <label className={`${buttonClass} flex items-center cursor-pointer`} style={buttonStyle} title="Load a scenario file into the top bar">
+        Import
+        <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </label>
+      <button
+        type="button"
+        className={buttonClass}
+        style={buttonStyle}
+        onClick={copyLink}
+        disabled={!hash}
+        title={hash ? 'Copy a link that opens the game with these settings' : 'Too big for a link (e.g. a custom food layout); use Export to share a scenario file'}
+      >
+        {copied ? 'Copied!' : 'Copy link'}
+      </button>
+      {error && <span className="text-xs ml-1" style={{ color: '#d32f2f' }}>{error}</span>}
+    </>
+  );
+};
+
+export default ScenarioControls;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { MAX_SIM_SPEED, MIN_SIM_SPEED } from './buffetengine';
+
+interface SimulationControlsProps {
+  paused: boolean;
+  speed: number; // simulated seconds per real second
+  onPausedChange: (paused: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onStep: () => void; // advance one tick while paused
+}
+
+const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-40';
+
+function formatSpeed(speed: number): string {
+  return speed < 10 ? `${speed.toFixed(1)}×` : `${Math.round(speed)}×`;
+}
+
+// Pause, single-step and speed bar shown over the canvas during a live race.
+// The slider is logarithmic so 0.1× to 1× gets as much travel as 5× to 50×.
+const SimulationControls: React.FC<SimulationControlsProps> = ({ paused, speed, onPausedChange, onSpeedChange, onStep }) => (
+  <div
+    className="absolute bottom-4 right-4 z-30 flex items-center gap-x-3 px-4 py-2 rounded-lg text-white"
+    style={{ background: 'rgba(17,24,39,0.85)' }}
+  >
+    <button className={buttonClass} onClick={() => onPausedChange(!paused)} title={paused ? 'Resume (P)' : 'Pause (P)'}>
+      {paused ? '▶' : '⏸'}
+    </button>
+    <button className={buttonClass} onClick={onStep} disabled={!paused} title="Advance one tick (.)">
+      ⏭
+    </button>
+    <input
+      type="range"
+      min={Math.log10(MIN_SIM_SPEED)}
+      max={Math.log10(MAX_SIM_SPEED)}
+      step={0.01}
+      value={Math.log10(speed)}
+      onChange={(e) => onSpeedChange(Number((10 ** parseFloat(e.target.value)).toPrecision(2)))}
+      style={{ width: 160 }}
+      aria-label="Simulation speed"
+      title="Simulation speed (R toggles 1× / 8×)"
+    />
+    <button className={`${buttonClass} font-mono`} style={{ minWidth: 56 }} onClick={() => onSpeedChange(1)} title="Back to real time">
+      {formatSpeed(speed)}
+    </button>
+  </div>
+);
+
+export default SimulationControls;
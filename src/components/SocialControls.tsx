@@ -0,0 +1,50 @@
+import React from 'react';
+import { DEFAULT_SOCIAL_SETTINGS, type SocialSettings } from './buffetsocial';
+
+interface SocialControlsProps {
+  value: Partial<SocialSettings>;
+  onChange: (settings: Partial<SocialSettings>) => void;
+}
+
+const inputClass = 'px-1 py-0.5 rounded bg-gray-100 text-gray-900 border border-gray-400 text-center text-xs';
+const labelClass = 'text-xs ml-2 mr-1 whitespace-nowrap text-gray-800';
+
+// Parameter-bar controls for the producer-scrounger mix
+const SocialControls: React.FC<SocialControlsProps> = ({ value, onChange }) => {
+  const settings = { ...DEFAULT_SOCIAL_SETTINGS, ...value };
+  const percentInput = (key: 'scroungerFraction' | 'stealProbability', label: string, title: string) => (
+    <>
+      <label htmlFor={key} className={labelClass} title={title}>{label}:</label>
+      <input
+        id={key}
+        type="number"
+        min="0"
+        max="100"
+        step="5"
+        value={Math.round(settings[key] * 100)}
+        onChange={(e) => onChange({ ...value, [key]: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100 })}
+        className={`${inputClass} w-12`}
+        style={{ height: 28 }}
+      />
+    </>
+  );
+
+  return (
+    <>
+      {percentInput('scroungerFraction', 'Scroungers %', 'Share of players that start as scroungers')}
+      {settings.scroungerFraction > 0 || settings.evolve
+        ? percentInput('stealProbability', 'Steal %', 'Chance a scrounger next to a producer steals its item')
+        : null}
+      <label className={`${labelClass} flex items-center gap-x-1`} title="Players switch role by comparing payoffs">
+        <input
+          type="checkbox"
+          checked={settings.evolve}
+          onChange={(e) => onChange({ ...value, evolve: e.target.checked })}
+        />
+        Evolve roles
+      </label>
+    </>
+  );
+};
+
+export default SocialControls;
@@ -0,0 +1,316 @@
+import * as THREE from 'three';
+import type { Player } from './buffetplayers';
+import type { Random } from './buffetrandom';
+import {
+  registerForagingStrategy,
+  type ForagingContext,
+  type ForagingStrategy,
+  type StrategyState,
+} from './buffetstrategies';
+import { SimulationEngine, type SimulationConfig } from './buffetengine';
+
+// Learning agents. A policy sees a compact observation of the player's
+// surroundings and answers with an action; the reward is the score gained since
+// its previous decision. Policies plug in as ordinary foraging strategies.
+
+export const AGENT_SECTORS = 8; // world-frame compass sectors, sector 0 centred on +x
+const OBSERVATION_RADIUS = 20;
+const DECISION_INTERVAL = 0.25; // seconds an action is held before the policy is asked again
+
+export interface AgentObservation {
+  foodBySector: number[]; // unconsumed food within the observation radius, per sector
+  playersBySector: number[]; // other living players within the observation radius, per sector
+  nearestFoodSector: number; // -1 when no food is in range
+  nearestFoodDistance: number; // Infinity when no food is in range
+  energy: number | null; // null when the energy model is off
+  score: number;
+}
+
+export interface AgentAction {
+  heading: number; // world-frame direction, radians from +x towards +z
+  speed: number; // fraction of walking speed, 0..1
+  jump: boolean;
+}
+
+export interface AgentPolicy {
+  // `reward` is the score gained since this player's previous decision; `state` is
+  // the player's own scratch space, persisted between decisions
+  act: (observation: AgentObservation, reward: number, state: StrategyState, random: Random) => AgentAction;
+}
+
+function sectorOf(from: THREE.Vector3, to: THREE.Vector3): number {
+  const angle = Math.atan2(to.z - from.z, to.x - from.x);
+  const width = (Math.PI * 2) / AGENT_SECTORS;
+  return ((Math.round(angle / width) % AGENT_SECTORS) + AGENT_SECTORS) % AGENT_SECTORS;
+}
+
+export function sectorAngle(sector: number): number {
+  return (sector * Math.PI * 2) / AGENT_SECTORS;
+}
+
+export function observe(player: Player, context: ForagingContext): AgentObservation {
+  const foodBySector = new Array(AGENT_SECTORS).fill(0);
+  const playersBySector = new Array(AGENT_SECTORS).fill(0);
+  let nearestFoodSector = -1;
+  let nearestFoodDistance = Infinity;
+  for (const food of context.foodWithin(player.position, OBSERVATION_RADIUS)) {
+    const sector = sectorOf(player.position, food.position);
+    foodBySector[sector]++;
+    const distance = player.position.distanceTo(food.position);
+    if (distance < nearestFoodDistance) {
+      nearestFoodDistance = distance;
+      nearestFoodSector = sector;
+    }
+  }
+  for (const other of context.players) {
+    if (other === player || other.alive === false) continue;
+    if (player.position.distanceToSquared(other.position) > OBSERVATION_RADIUS ** 2) continue;
+    playersBySector[sectorOf(player.position, other.position)]++;
+  }
+  return {
+    foodBySector,
+    playersBySector,
+    nearestFoodSector,
+    nearestFoodDistance,
+    energy: player.energy ?? null,
+    score: player.score,
+  };
+}
+
+// Wrap a policy as a foraging strategy: collect reward every tick, ask the policy
+// every DECISION_INTERVAL seconds and hold its action in between
+export function createAgentStrategy(
+  policy: AgentPolicy,
+  info: Pick<ForagingStrategy, 'id' | 'label' | 'description' | 'hidden'>
+): ForagingStrategy {
+  return {
+    ...info,
+    createState: player => ({ lastScore: player.score, reward: 0, sinceDecision: Infinity }),
+    decide: (player, context) => {
+      const state = player.strategyState!;
+      state.reward += player.score - state.lastScore;
+      state.lastScore = player.score;
+      state.sinceDecision += context.delta;
+      if (state.sinceDecision >= DECISION_INTERVAL) {
+        const action = policy.act(observe(player, context), state.reward, state, context.random);
+        state.reward = 0;
+        state.sinceDecision = 0;
+        state.heading = action.heading;
+        state.speed = action.speed;
+        state.jump = action.jump ? 1 : 0;
+      }
+      const jump = state.jump === 1;
+      state.jump = 0; // a jump is a one-off, not held
+      return {
+        target: null,
+        heading: new THREE.Vector3(Math.cos(state.heading), 0, Math.sin(state.heading)),
+        speed: state.speed,
+        jump,
+      };
+    },
+  };
+}
+
+// --- Tabular Q-learning ---
+// State: sector of the nearest food x distance band x whether another player is
+// heading the same way, plus one state for "no food in sight". Action: walk
+// towards one of the compass sectors at full speed.
+
+const DISTANCE_BANDS = [3, 8, OBSERVATION_RADIUS];
+export const Q_STATE_COUNT = AGENT_SECTORS * DISTANCE_BANDS.length * 2 + 1;
+export const Q_ACTION_COUNT = AGENT_SECTORS;
+
+export interface QTable {
+  version: 1;
+  stateCount: number;
+  actionCount: number;
+  values: number[]; // stateCount x actionCount, row-major
+  episodes: number; // training episodes behind these values
+}
+
+export function createQTable(): QTable {
+  return {
+    version: 1,
+    stateCount: Q_STATE_COUNT,
+    actionCount: Q_ACTION_COUNT,
+    values: new Array(Q_STATE_COUNT * Q_ACTION_COUNT).fill(0),
+    episodes: 0,
+  };
+}
+
+export function parseQTable(json: unknown): QTable {
+  if (typeof json !== 'object' || json === null) throw new Error('Policy must be a JSON object');
+  const table = json as QTable;
+  if (table.version !== 1) throw new Error('Unsupported policy version');
+  if (table.stateCount !== Q_STATE_COUNT || table.actionCount !== Q_ACTION_COUNT) {
+    throw new Error(`Policy must have ${Q_STATE_COUNT} states and ${Q_ACTION_COUNT} actions`);
+  }
+  if (!Array.isArray(table.values) || table.values.length !== Q_STATE_COUNT * Q_ACTION_COUNT ||
+      !table.values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    throw new Error('"values" must hold one finite number per state and action');
+  }
+  return { ...table, episodes: typeof table.episodes === 'number' ? table.episodes : 0 };
+}
+
+export function discretize(observation: AgentObservation): number {
+  if (observation.nearestFoodSector < 0) return Q_STATE_COUNT - 1;
+  let band = DISTANCE_BANDS.findIndex(limit => observation.nearestFoodDistance <= limit);
+  if (band < 0) band = DISTANCE_BANDS.length - 1;
+  const contested = observation.playersBySector[observation.nearestFoodSector] > 0 ? 1 : 0;
+  return (observation.nearestFoodSector * DISTANCE_BANDS.length + band) * 2 + contested;
+}
+
+export interface QLearningOptions {
+  learn: boolean;
+  epsilon: number; // exploration rate
+  alpha: number; // learning rate
+  gamma: number; // discount per decision
+}
+
+// Ties (e.g. unvisited states) are broken at random so an untrained agent wanders
+function bestAction(table: QTable, s: number, random: Random): number {
+  let best = -Infinity;
+  let choices: number[] = [];
+  for (let a = 0; a < table.actionCount; a++) {
+    const q = table.values[s * table.actionCount + a];
+    if (q > best) {
+      best = q;
+      choices = [a];
+    } else if (q === best) {
+      choices.push(a);
+    }
+  }
+  return choices[Math.floor(random() * choices.length)];
+}
+
+export function qLearningPolicy(table: QTable, options: QLearningOptions): AgentPolicy {
+  return {
+    act: (observation, reward, state, random) => {
+      const s = discretize(observation);
+      if (options.learn && state.prevState !== undefined) {
+        const i = state.prevState * table.actionCount + state.prevAction;
+        let maxNext = -Infinity;
+        for (let a = 0; a < table.actionCount; a++) maxNext = Math.max(maxNext, table.values[s * table.actionCount + a]);
+        table.values[i] += options.alpha * (reward + options.gamma * maxNext - table.values[i]);
+      }
+      const action = options.learn && random() < options.epsilon
+        ? Math.floor(random() * table.actionCount)
+        : bestAction(table, s, random);
+      state.prevState = s;
+      state.prevAction = action;
+      return { heading: sectorAngle(action), speed: 1, jump: false };
+    },
+  };
+}
+
+export const Q_AGENT_ID = 'q-agent';
+const Q_AGENT_INFO = {
+  id: Q_AGENT_ID,
+  label: 'Q-Learning Agent',
+  description: 'Tabular Q-learning policy; train it from the parameter bar or load a saved policy.',
+};
+
+// Swap in a trained table for every player using the Q-learning agent
+export function loadQAgentPolicy(table: QTable) {
+  registerForagingStrategy(createAgentStrategy(qLearningPolicy(table, { learn: false, epsilon: 0, alpha: 0, gamma: 0 }), Q_AGENT_INFO));
+}
+
+loadQAgentPolicy(createQTable());
+
+// --- Headless training ---
+
+export interface QTrainingOptions {
+  episodes: number;
+  episodeSeconds: number;
+  agents: number; // learning players per episode
+  opponents: number; // greedy players per episode
+  foodAmount: number;
+  mapSize: number;
+  seed: number; // episode i uses seed + i
+  alpha: number;
+  gamma: number;
+  epsilonStart: number;
+  epsilonEnd: number;
+}
+
+export const DEFAULT_Q_TRAINING_OPTIONS: QTrainingOptions = {
+  episodes: 100,
+  episodeSeconds: 30,
+  agents: 2,
+  opponents: 2,
+  foodAmount: 200,
+  mapSize: 40,
+  seed: 1,
+  alpha: 0.1,
+  gamma: 0.9,
+  epsilonStart: 1,
+  epsilonEnd: 0.05,
+};
+
+export interface QEpisodeResult {
+  episode: number;
+  epsilon: number;
+  agentScore: number; // mean score of the learning players
+  opponentScore: number; // mean score of the greedy players
+}
+
+const Q_TRAINING_ID = 'q-agent-training';
+
+// Trains a Q-table one episode at a time, so callers can interleave training with
+// UI updates or run it flat out in Node
+export class QLearningTrainer {
+  readonly options: QTrainingOptions;
+  readonly table: QTable;
+  episode = 0;
+  private epsilon: number;
+
+  constructor(options: Partial<QTrainingOptions> = {}, table: QTable = createQTable()) {
+    this.options = { ...DEFAULT_Q_TRAINING_OPTIONS, ...options };
+    this.table = table;
+    this.epsilon = this.options.epsilonStart;
+  }
+
+  get done(): boolean {
+    return this.episode >= this.options.episodes;
+  }
+
+  runEpisode(): QEpisodeResult {
+    const { options } = this;
+    const progress = options.episodes > 1 ? this.episode / (options.episodes - 1) : 1;
+    this.epsilon = options.epsilonStart + (options.epsilonEnd - options.epsilonStart) * progress;
+    const policy = qLearningPolicy(this.table, { learn: true, epsilon: this.epsilon, alpha: options.alpha, gamma: options.gamma });
+    registerForagingStrategy(createAgentStrategy(policy, {
+      id: Q_TRAINING_ID,
+      label: 'Q-Learning Agent (training)',
+      description: 'Exploring, learning copy of the Q-learning agent.',
+      hidden: true,
+    }));
+    const config: SimulationConfig = {
+      playerCount: options.agents + options.opponents,
+      foodAmount: options.foodAmount,
+      mapSize: options.mapSize,
+      seed: options.seed + this.episode,
+      playerStrategies: [
+        ...new Array(options.agents).fill(Q_TRAINING_ID),
+        ...new Array(options.opponents).fill('greedy'),
+      ],
+    };
+    const engine = new SimulationEngine(config);
+    engine.run(options.episodeSeconds);
+    const mean = (players: Player[]) => (players.length ? players.reduce((sum, p) => sum + p.score, 0) / players.length : 0);
+    this.episode += 1;
+    this.table.episodes += 1;
+    return {
+      episode: this.episode,
+      epsilon: this.epsilon,
+      agentScore: mean(engine.players.slice(0, options.agents)),
+      opponentScore: mean(engine.players.slice(options.agents)),
+    };
+  }
+
+  train(): QEpisodeResult[] {
+    const results: QEpisodeResult[] = [];
+    while (!this.done) results.push(this.runEpisode());
+    return results;
+  }
+}
@@ -0,0 +1,50 @@
+import type { Player } from './buffetplayers';
+
+// Race analytics: periodic samples of every player's intake and distance, and
+// the derived measures the analytics panel charts.
+
+export interface AnalyticsSample {
+  time: number;
+  scores: number[]; // cumulative intake per player
+  distances: number[]; // cumulative ground distance per player
+  foodLeft: number;
+}
+
+export const ANALYTICS_INTERVAL = 0.5; // seconds between samples
+const RATE_WINDOW = 2; // seconds the intake rate is averaged over
+
+export function analyticsSample(time: number, players: Player[], foodLeft: number): AnalyticsSample {
+  return {
+    time,
+    scores: players.map(p => p.score),
+    distances: players.map(p => p.distanceTravelled ?? 0),
+    foodLeft,
+  };
+}
+
+// Gini coefficient: 0 when everyone has the same, approaching 1 when one player has it all
+export function gini(values: number[]): number {
+  const n = values.length;
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (n === 0 || total <= 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  // Sorted form of sum_i sum_j |x_i - x_j| / (2 n^2 mean)
+  const weighted = sorted.reduce((sum, v, i) => sum + (2 * (i + 1) - n - 1) * v, 0);
+  return weighted / (n * total);
+}
+
+// Intake per unit distance; null before a player has moved
+export function searchEfficiency(score: number, distance: number): number | null {
+  return distance > 0 ? score / distance : null;
+}
+
+// Per-player intake rate at each sample, averaged over the trailing RATE_WINDOW seconds
+export function intakeRates(history: AnalyticsSample[]): number[][] {
+  let start = 0;
+  return history.map((sample, k) => {
+    while (start < k && sample.time - history[start + 1].time >= RATE_WINDOW) start++;
+    const from = history[start];
+    const elapsed = sample.time - from.time;
+    return sample.scores.map((score, i) => (elapsed > 0 ? (score - (from.scores[i] ?? 0)) / elapsed : 0));
+  });
+}
@@ -0,0 +1,49 @@
+import { FOOD_TYPES, type FoodType } from './buffetfood';
+
+// Prey values for the classic prey (diet breadth) model: each food type is worth
+// `value` points and takes `handlingTime` seconds to eat, during which the forager
+// cannot move or search.
+
+export interface FoodValue {
+  value: number; // points scored per item
+  handlingTime: number; // seconds the eater is immobile
+}
+
+export type FoodValues = Record<FoodType, FoodValue>;
+
+// Every item worth one point and eaten instantly, as in the original race
+export const DEFAULT_FOOD_VALUES: FoodValues = {
+  cube: { value: 1, handlingTime: 0 },
+  sphere: { value: 1, handlingTime: 0 },
+  triangle: { value: 1, handlingTime: 0 },
+};
+
+// A textbook setup: one rich but slow prey, one quick snack, one poor item not worth the time
+export const PREY_MODEL_FOOD_VALUES: FoodValues = {
+  cube: { value: 5, handlingTime: 1 },
+  sphere: { value: 2, handlingTime: 0.5 },
+  triangle: { value: 1, handlingTime: 2 },
+};
+
+export function profitability({ value, handlingTime }: FoodValue): number {
+  return handlingTime > 0 ? value / handlingTime : value > 0 ? Infinity : 0;
+}
+
+// Optimal diet from the prey model: rank types by profitability e/h and add them
+// while e/h of the next type is at least the rate E/(1 + H) the diet so far achieves,
+// where E and H sum encounter rate times value and handling time. Whether a type is
+// included depends only on the abundance of better types, never on its own.
+export function optimalDiet(values: FoodValues, encounterRates: Record<FoodType, number>): Set<FoodType> {
+  const ranked = FOOD_TYPES.slice().sort((a, b) => profitability(values[b]) - profitability(values[a]));
+  const diet = new Set<FoodType>();
+  let gain = 0;
+  let handling = 0;
+  for (const type of ranked) {
+    const rate = gain / (1 + handling);
+    if (diet.size > 0 && profitability(values[type]) < rate) break;
+    diet.add(type);
+    gain += encounterRates[type] * values[type].value;
+    handling += encounterRates[type] * values[type].handlingTime;
+  }
+  return diet;
+}
@@ -0,0 +1,103 @@
+// End conditions: when a race is over, and why. Shared by the engine and the 2D
+// view, which feed it their own race state.
+
+export interface EndSettings {
+  timeLimit: boolean; // the race's time limit (the Minutes setting)
+  firstTo: number; // items one player must eat; 0 turns it off
+  foodEaten: number; // fraction of the starting food eaten, 0..1; 0 turns it off
+  lastAlive: boolean; // at most one player left alive
+  combine: 'any' | 'all'; // whether one enabled condition ends the race, or only all of them together
+}
+
+// Food runs out or time is up, whichever comes first
+export const DEFAULT_END_SETTINGS: EndSettings = {
+  timeLimit: true,
+  firstTo: 0,
+  foodEaten: 1,
+  lastAlive: false,
+  combine: 'any',
+};
+
+export type EndReason = 'time' | 'first-to' | 'food' | 'last-alive' | 'all-dead';
+
+export interface RaceState {
+  time: number; // simulated seconds
+  timeLimit?: number; // seconds; no limit when undefined
+  itemsEaten: number[]; // per player
+  alive: boolean[]; // per player
+  foodLeft: number;
+  startingFood: number;
+}
+
+export interface RaceEnd {
+  time: number;
+  reasons: EndReason[]; // every condition that held when the race ended
+  player?: number; // who got to N items first, or who is left alive
+}
+
+type Condition = Exclude<EndReason, 'all-dead'>;
+
+function enabledConditions(settings: EndSettings, state: RaceState): Condition[] {
+  const conditions: Condition[] = [];
+  if (settings.timeLimit && state.timeLimit !== undefined) conditions.push('time');
+  if (settings.firstTo > 0) conditions.push('first-to');
+  if (settings.foodEaten > 0) conditions.push('food');
+  if (settings.lastAlive && state.alive.length > 1) conditions.push('last-alive');
+  return conditions;
+}
+
+// Who has eaten the most once someone reaches firstTo; ties go to the lower index
+function leader(state: RaceState, firstTo: number): number | undefined {
+  let best: number | undefined;
+  state.itemsEaten.forEach((items, i) => {
+    if (items >= firstTo && (best === undefined || items > state.itemsEaten[best])) best = i;
+  });
+  return best;
+}
+
+// The race's end, or null while it goes on. A race where everyone has died is
+// always over; with no condition enabled only that ends it.
+export function checkEnd(state: RaceState, settings: EndSettings): RaceEnd | null {
+  const aliveCount = state.alive.filter(Boolean).length;
+  if (state.alive.length > 0 && aliveCount === 0) return { time: state.time, reasons: ['all-dead'] };
+  const winner = settings.firstTo > 0 ? leader(state, settings.firstTo) : undefined;
+  const eaten = state.startingFood > 0 ? 1 - state.foodLeft / state.startingFood : 0;
+  const holds: Record<Condition, boolean> = {
+    time: state.timeLimit !== undefined && state.time >= state.timeLimit - 1e-9,
+    'first-to': winner !== undefined,
+    food: eaten >= settings.foodEaten - 1e-9,
+    'last-alive': aliveCount <= 1,
+  };
+  const conditions = enabledConditions(settings, state);
+  const reasons = conditions.filter(c => holds[c]);
+  const over = settings.combine === 'all' ? conditions.length > 0 && reasons.length === conditions.length : reasons.length > 0;
+  if (!over) return null;
+  const player = reasons.includes('first-to') ? winner : reasons.includes('last-alive') ? state.alive.indexOf(true) : undefined;
+  return { time: state.time, reasons, ...(player !== undefined && player >= 0 && { player }) };
+}
+
+export function formatClock(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds + 1e-6));
+  return `${String(Math.floor(whole / 60)).padStart(2, '0')}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// The race clock: counts down to the time limit when it is an end condition, up otherwise
+export function raceClock(time: number, timeLimit: number, settings: EndSettings): string {
+  return settings.timeLimit ? formatClock(Math.ceil(timeLimit - time - 1e-6)) : formatClock(time);
+}
+
+// One line for the game-over screen, e.g. "Player 3 ate 20 items first"
+export function describeEnd(end: RaceEnd, settings: EndSettings): string {
+  const player = end.player !== undefined ? `Player ${end.player + 1}` : 'A player';
+  const parts = end.reasons.map(reason => {
+    switch (reason) {
+      case 'time': return `time ran out at ${formatClock(end.time)}`;
+      case 'first-to': return `${player} ate ${settings.firstTo} items first`;
+      case 'food': return settings.foodEaten >= 1 ? 'all the food was eaten' : `${Math.round(settings.foodEaten * 100)}% of the food was eaten`;
+      case 'last-alive': return end.player !== undefined ? `${player} is the last one alive` : 'nobody is left alive';
+      case 'all-dead': return 'every player died';
+    }
+  });
+  const text = parts.join(' and ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,61 @@
+import type { Player } from './buffetplayers';
+import type { FoodType } from './buffetfood';
+
+// Energy budget: players burn energy to live, move and jump, gain it by eating,
+// and die when it runs out. Strategies are ranked by net energy intake rate.
+
+export interface EnergySettings {
+  enabled: boolean;
+  initialEnergy: number;
+  basalCost: number; // energy per second just for being alive
+  movementCost: number; // energy per unit of horizontal distance, so cost per second scales with speed
+  jumpCost: number; // energy per jump
+  foodEnergy: Record<FoodType, number>; // calories per food type
+}
+
+export const DEFAULT_ENERGY_SETTINGS: EnergySettings = {
+  enabled: false,
+  initialEnergy: 50,
+  basalCost: 0.5,
+  movementCost: 0.2,
+  jumpCost: 2,
+  foodEnergy: { cube: 6, sphere: 4, triangle: 2 },
+};
+
+export function isAlive(player: Player): boolean {
+  return player.alive !== false;
+}
+
+// Net energy gained per second alive; the currency foraging theory optimises
+export function netEnergyRate(player: Player, time: number): number {
+  const lifetime = player.diedAt ?? time;
+  if (lifetime <= 0) return 0;
+  return ((player.energyGained ?? 0) - (player.energySpent ?? 0)) / lifetime;
+}
+
+// Charge one tick of upkeep; kills the player when its reserves hit zero
+export function chargeEnergy(
+  player: Player,
+  settings: EnergySettings,
+  distance: number,
+  jumped: boolean,
+  delta: number,
+  time: number
+) {
+  const cost = settings.basalCost * delta + settings.movementCost * distance + (jumped ? settings.jumpCost : 0);
+  player.energy = (player.energy ?? settings.initialEnergy) - cost;
+  player.energySpent = (player.energySpent ?? 0) + cost;
+  if (player.energy <= 0) {
+    player.energy = 0;
+    player.alive = false;
+    player.diedAt = time;
+    player.causeOfDeath = 'starvation';
+    player.velocity.set(0, 0, 0);
+  }
+}
+
+export function feedEnergy(player: Player, settings: EnergySettings, type: FoodType) {
+  const calories = settings.foodEnergy[type];
+  player.energy = (player.energy ?? settings.initialEnergy) + calories;
+  player.energyGained = (player.energyGained ?? 0) + calories;
+}
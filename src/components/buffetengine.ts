@@ -0,0 +1,407 @@
+import * as THREE from 'three';
+import { DEFAULT_PHYSICS_SETTINGS, updateBuffetPlayers, type Player, type FoodItem, type PhysicsSettings } from './buffetplayers';
+import type { StrategyId } from './buffetstrategies';
+import { createRandom, deriveSeed, type Random } from './buffetrandom';
+import { SpatialGrid } from './buffetspatial';
+import {
+  DEFAULT_DISTRIBUTION_PARAMS,
+  getFoodDistribution,
+  gridPatchId,
+  FOOD_TYPES,
+  type FoodDistributionSettings,
+  type FoodType,
+} from './buffetfood';
+import {
+  DEFAULT_REGROWTH_PARAMS,
+  getRegrowthModel,
+  type RegrowthSettings,
+  type RegrowthState,
+} from './buffetregrowth';
+import { DEFAULT_SOCIAL_SETTINGS, assignRoles, reviseRoles, type SocialSettings } from './buffetsocial';
+import { DEFAULT_ENERGY_SETTINGS, isAlive, type EnergySettings } from './buffetenergy';
+import { DEFAULT_FOOD_VALUES, type FoodValue, type FoodValues } from './buffetdiet';
+import { DEFAULT_PERCEPTION_SETTINGS, type PerceptionSettings } from './buffetperception';
+import {
+  DEFAULT_PREDATION_SETTINGS,
+  FearMap,
+  createPredators,
+  updatePredators,
+  type PredationSettings,
+  type Predator,
+} from './buffetpredators';
+import type { Genome } from './buffetevolution';
+import { TelemetryRecorder } from './buffettelemetry';
+import { ReplayRecorder } from './buffetreplay';
+import { ANALYTICS_INTERVAL, analyticsSample, type AnalyticsSample } from './buffetanalytics';
+import { DEFAULT_END_SETTINGS, checkEnd, type EndSettings, type RaceEnd } from './buffetend';
+
+// Framework-free race simulation. Owns the world state and advances it in fixed
+// ticks, so a race plays out the same in a Canvas, in Node or in a Web Worker.
+
+export interface SimulationConfig {
+  playerCount: number;
+  foodAmount: number;
+  mapSize: number; // arena spans -mapSize..mapSize in x and z
+  playerStrategies?: StrategyId[];
+  playerColors?: (string | null)[]; // per-player colour overrides; null keeps the palette colour
+  seed: number;
+  foodDistribution?: FoodDistributionSettings; // defaults to uniform
+  regrowth?: RegrowthSettings; // defaults to no regrowth
+  timeLimit?: number; // seconds of simulated time; no limit by default
+  end?: Partial<EndSettings>; // when the race ends; food runs out or time is up by default
+  social?: Partial<SocialSettings>; // producer-scrounger mix; defaults to all producers
+  energy?: Partial<EnergySettings>; // energy budget; off unless enabled
+  foodValues?: Partial<Record<FoodType, Partial<FoodValue>>>; // points and handling time per type; defaults to 1 point, instant
+  perception?: Partial<PerceptionSettings>; // sensing for every player; omniscient unless enabled
+  playerPerception?: Partial<PerceptionSettings>[]; // per-player overrides on top of `perception`
+  predation?: Partial<PredationSettings>; // predators and forager vigilance; none by default
+  genomes?: Genome[]; // per-player heritable traits in generational mode
+  physics?: Partial<PhysicsSettings>; // gravity and jump strength
+  telemetry?: boolean; // record per-tick player samples and consumption events
+  replay?: boolean; // record the world after every tick for replays
+  fixedDelta?: number; // seconds per tick
+  maxTicksPerStep?: number; // cap on catch-up ticks when a frame takes too long
+}
+
+export interface FoodHistorySample {
+  time: number;
+  foodLeft: number;
+}
+
+export const DEFAULT_FIXED_DELTA = 1 / 60;
+// Range of the live speed control; fast-forward runs more fixed ticks per frame,
+// never longer ones, so players cannot skip past food
+export const MIN_SIM_SPEED = 0.1;
+export const MAX_SIM_SPEED = 50;
+const FOOD_HISTORY_INTERVAL = 1; // seconds between food-left samples
+const DEFAULT_MAX_TICKS_PER_STEP = 240;
+const IDLE_SPEED = 0.1; // horizontal speed below which a player counts as standing still
+const PREDATOR_SEED_SALT = 0x9e7; // predators get their own stream so adding them leaves food placement alone
+
+export const PLAYER_COLORS = [
+  '#FF5733', '#33FF57', '#3357FF', '#F3FF33',
+  '#FF33F3', '#33FFF3', '#F333FF', '#FFA533'
+];
+const FOOD_COLORS = ['#FF9999', '#99FF99', '#9999FF', '#FFFF99', '#FF99FF', '#99FFFF'];
+
+// Players start evenly spaced on a ring, facing the centre
+export function createPlayers(config: SimulationConfig): Player[] {
+  const players: Player[] = [];
+  const roles = assignRoles(config.playerCount, config.social?.scroungerFraction ?? 0, config.playerStrategies);
+  for (let i = 0; i < config.playerCount; i++) {
+    const angle = (i / config.playerCount) * Math.PI * 2;
+    const radius = config.mapSize * 0.75;
+    // An evolving player's sight is part of its genome
+    const genome = config.genomes?.[i];
+    players.push({
+      id: i,
+      position: new THREE.Vector3(
+        Math.cos(angle) * radius,
+        0.5,
+        Math.sin(angle) * radius
+      ),
+      quaternion: new THREE.Quaternion().setFromAxisAngle(
+        new THREE.Vector3(0, 1, 0),
+        -angle
+      ),
+      velocity: new THREE.Vector3(0, 0, 0),
+      score: 0,
+      color: config.playerColors?.[i] ?? PLAYER_COLORS[i % PLAYER_COLORS.length],
+      isJumping: false,
+      verticalVelocity: 0,
+      strategyId: config.playerStrategies?.[i],
+      role: roles[i],
+      roleScores: { producer: 0, scrounger: 0 },
+      perception: {
+        ...DEFAULT_PERCEPTION_SETTINGS,
+        ...config.perception,
+        ...config.playerPerception?.[i],
+        ...(genome && { enabled: true, radius: genome.perceptionRadius }),
+      },
+      genome,
+      ...(config.energy?.enabled && {
+        energy: config.energy.initialEnergy ?? DEFAULT_ENERGY_SETTINGS.initialEnergy,
+        alive: true,
+        energyGained: 0,
+        energySpent: 0,
+      }),
+    });
+  }
+  return players;
+}
+
+// Food placement comes from the configured distribution; type and colour are random
+// unless the distribution fixes the type. Items without a patch get a grid-cell patch.
+export function createFoodItems(config: SimulationConfig, random: Random): FoodItem[] {
+  const settings = config.foodDistribution;
+  const distribution = getFoodDistribution(settings?.id);
+  const params = { ...DEFAULT_DISTRIBUTION_PARAMS, ...settings?.params };
+  const spawns = distribution.generate(config.foodAmount, config.mapSize, random, params);
+  const firstGridPatch = spawns.reduce((max, spawn) => Math.max(max, (spawn.patchId ?? -1) + 1), 0);
+  return spawns.map((spawn, i) => {
+    const type = FOOD_TYPES[Math.floor(random() * FOOD_TYPES.length)];
+    return {
+      id: i,
+      position: new THREE.Vector3(spawn.x, 0.5, spawn.z),
+      type: spawn.type ?? type,
+      consumed: false,
+      color: FOOD_COLORS[Math.floor(random() * FOOD_COLORS.length)],
+      patchId: spawn.patchId ?? gridPatchId(spawn.x, spawn.z, config.mapSize, firstGridPatch),
+    };
+  });
+}
+
+export class SimulationEngine {
+  readonly config: SimulationConfig;
+  readonly fixedDelta: number;
+  players: Player[] = [];
+  foodItems: FoodItem[] = [];
+  foodLeft = 0;
+  random!: Random; // seeded stream, recreated on reset
+  foodIndex!: SpatialGrid<FoodItem>; // unconsumed food, for nearest-target queries
+  time = 0; // simulated seconds since reset
+  tickCount = 0;
+  foodHistory: FoodHistorySample[] = [];
+  analytics: AnalyticsSample[] = []; // per-player intake and distance every ANALYTICS_INTERVAL seconds
+  predators: Predator[] = [];
+  fearMap!: FearMap; // landscape of fear: where predators have been and struck
+  telemetry: TelemetryRecorder | null = null; // set when the config asks for telemetry
+  replay: ReplayRecorder | null = null; // set when the config asks for a replay
+  itemsEaten: number[] = []; // per player; scores also weigh items by food value
+  captureTimes: number[][] = []; // per player, when each item was eaten
+  jumps: number[] = []; // per player
+  idleTime: number[] = []; // per player, seconds spent alive and standing still
+  startingFood = 0;
+  end: RaceEnd | null = null; // set on the tick an end condition fires
+  private predatorRandom!: Random;
+  private accumulator = 0;
+  private regrowthState: RegrowthState = {};
+  private consumedSlots: number[] = []; // eaten items, oldest first, for regrowth
+  private patchSizes = new Map<number, number>();
+  private lastRevision = { time: 0, scores: [] as number[] };
+
+  constructor(config: SimulationConfig) {
+    this.config = config;
+    this.fixedDelta = config.fixedDelta ?? DEFAULT_FIXED_DELTA;
+    this.reset();
+  }
+
+  // Restart the race from the configured seed
+  reset() {
+    this.random = createRandom(this.config.seed);
+    this.players = createPlayers(this.config);
+    this.foodItems = createFoodItems(this.config, this.random);
+    this.foodIndex = new SpatialGrid<FoodItem>(this.config.mapSize);
+    this.foodItems.forEach(item => this.foodIndex.insert(item));
+    this.foodLeft = this.foodIndex.size;
+    this.startingFood = this.foodLeft;
+    this.itemsEaten = this.players.map(() => 0);
+    this.captureTimes = this.players.map(() => []);
+    this.jumps = this.players.map(() => 0);
+    this.idleTime = this.players.map(() => 0);
+    this.end = null;
+    this.predatorRandom = createRandom(deriveSeed(this.config.seed, PREDATOR_SEED_SALT));
+    this.predators = createPredators(this.predation.count, this.config.mapSize, this.predatorRandom);
+    this.fearMap = new FearMap(this.config.mapSize);
+    this.time = 0;
+    this.tickCount = 0;
+    this.accumulator = 0;
+    this.regrowthState = {};
+    this.consumedSlots = [];
+    this.patchSizes = new Map();
+    this.foodItems.forEach(item => {
+      const key = item.patchId ?? -1;
+      this.patchSizes.set(key, (this.patchSizes.get(key) ?? 0) + 1);
+    });
+    this.lastRevision = { time: 0, scores: this.players.map(p => p.score) };
+    this.foodHistory = [{ time: 0, foodLeft: this.foodLeft }];
+    this.analytics = [analyticsSample(0, this.players, this.foodLeft)];
+    this.telemetry = this.config.telemetry ? new TelemetryRecorder() : null;
+    this.telemetry?.recordTick(0, 0, this.players);
+    this.replay = this.config.replay ? new ReplayRecorder(this.foodItems) : null;
+    this.replay?.recordFrame(0, this.players, this.predators);
+  }
+
+  get social(): SocialSettings {
+    return { ...DEFAULT_SOCIAL_SETTINGS, ...this.config.social };
+  }
+
+  get energy(): EnergySettings {
+    return { ...DEFAULT_ENERGY_SETTINGS, ...this.config.energy };
+  }
+
+  get foodValues(): FoodValues {
+    const values = { ...DEFAULT_FOOD_VALUES };
+    FOOD_TYPES.forEach(type => {
+      values[type] = { ...values[type], ...this.config.foodValues?.[type] };
+    });
+    return values;
+  }
+
+  get physics(): PhysicsSettings {
+    return { ...DEFAULT_PHYSICS_SETTINGS, ...this.config.physics };
+  }
+
+  get endSettings(): EndSettings {
+    return { ...DEFAULT_END_SETTINGS, ...this.config.end };
+  }
+
+  get predation(): PredationSettings {
+    return { ...DEFAULT_PREDATION_SETTINGS, ...this.config.predation };
+  }
+
+  get isFoodDepleted(): boolean {
+    return this.foodLeft === 0;
+  }
+
+  get allDead(): boolean {
+    return this.players.length > 0 && !this.players.some(isAlive);
+  }
+
+  get isFinished(): boolean {
+    return this.end !== null;
+  }
+
+  // Payoff-driven role switching, every revisionInterval seconds
+  private applyRoleRevision(social: SocialSettings) {
+    if (!social.evolve || this.time - this.lastRevision.time < social.revisionInterval) return;
+    const payoffs = this.players.map((p, i) => p.score - (this.lastRevision.scores[i] ?? 0));
+    const roles = reviseRoles(this.players, payoffs, this.random);
+    // A switching player starts its new role with fresh state: scroungers never build
+    // their own strategy's state, so keeping theirs would leave the producer without one
+    this.players = this.players.map((p, i) => (roles[i] === p.role ? p : { ...p, role: roles[i], strategyState: undefined }));
+    this.lastRevision = { time: this.time, scores: this.players.map(p => p.score) };
+  }
+
+  // Predators move and strike after the foragers; victims die where they stand
+  private applyPredation(predation: PredationSettings) {
+    if (this.predators.length === 0) return;
+    const { predators, kills } = updatePredators(
+      this.predators, this.players, predation, this.fixedDelta, this.time, this.config.mapSize, this.predatorRandom
+    );
+    this.predators = predators;
+    this.fearMap.recordPresence(predators, this.fixedDelta);
+    if (kills.length === 0) return;
+    this.players = this.players.map(p => {
+      if (!kills.includes(p.id)) return p;
+      this.fearMap.recordKill(p.position);
+      return { ...p, alive: false, diedAt: this.time, causeOfDeath: 'predation', velocity: new THREE.Vector3() };
+    });
+  }
+
+  private applyRegrowth() {
+    const settings = this.config.regrowth;
+    const model = getRegrowthModel(settings?.id);
+    const restored = model.regrow(this.foodItems, {
+      time: this.time,
+      delta: this.fixedDelta,
+      random: this.random,
+      params: { ...DEFAULT_REGROWTH_PARAMS, ...settings?.params },
+      consumed: this.consumedSlots,
+      patchSizes: this.patchSizes,
+    }, this.regrowthState);
+    if (restored.length === 0) return;
+    const restoredSlots = new Set(restored);
+    this.consumedSlots = this.consumedSlots.filter(i => !restoredSlots.has(i));
+    this.foodItems = this.foodItems.slice();
+    restored.forEach(i => {
+      const item = this.foodItems[i];
+      if (!item.consumed) return;
+      const regrown = { ...item, consumed: false, consumedAt: undefined };
+      this.foodItems[i] = regrown;
+      this.foodIndex.insert(regrown);
+      this.replay?.recordFood(this.time, regrown.id, false);
+    });
+  }
+
+  // Advance by one fixed tick
+  tick() {
+    const { mapSize } = this.config;
+    const social = this.social;
+    const predation = this.predation;
+    const result = updateBuffetPlayers(this.players, this.foodItems, this.fixedDelta, {
+      mapSize,
+      random: this.random,
+      foodIndex: this.foodIndex,
+      time: this.time,
+      social,
+      energy: this.energy,
+      foodValues: this.foodValues,
+      predators: this.predators,
+      predation,
+      physics: this.physics,
+    });
+    result.players.forEach((p, i) => {
+      if (p.isJumping && !this.players[i].isJumping) this.jumps[i] += 1;
+      if (isAlive(p) && Math.hypot(p.velocity.x, p.velocity.z) < IDLE_SPEED) this.idleTime[i] += this.fixedDelta;
+    });
+    // Clamp player positions to map boundaries
+    this.players = result.players.map(p => {
+      p.position.x = Math.max(-mapSize, Math.min(mapSize, p.position.x));
+      p.position.z = Math.max(-mapSize, Math.min(mapSize, p.position.z));
+      return p;
+    });
+    this.foodItems = result.foodItems;
+    this.applyPredation(predation);
+    this.time += this.fixedDelta;
+    this.tickCount += 1;
+    this.applyRoleRevision(social);
+    // Items sit at the index of their id, so an eaten item's id is its slot
+    for (const event of result.consumptions) this.consumedSlots.push(event.foodId);
+    this.applyRegrowth();
+    this.foodLeft = this.foodIndex.size;
+    for (const event of result.consumptions) {
+      this.itemsEaten[event.playerId] += 1;
+      this.captureTimes[event.playerId].push(event.time);
+    }
+    this.end ??= checkEnd({
+      time: this.time,
+      timeLimit: this.config.timeLimit,
+      itemsEaten: this.itemsEaten,
+      alive: this.players.map(isAlive),
+      foodLeft: this.foodLeft,
+      startingFood: this.startingFood,
+    }, this.endSettings);
+    this.telemetry?.recordConsumptions(result.consumptions);
+    this.telemetry?.recordTick(this.tickCount, this.time, this.players);
+    if (this.replay) {
+      for (const event of result.consumptions) this.replay.recordFood(this.time, event.foodId, true);
+      this.replay.recordFrame(this.time, this.players, this.predators, this.end !== null);
+    }
+    const lastSample = this.foodHistory[this.foodHistory.length - 1];
+    if (this.time - lastSample.time >= FOOD_HISTORY_INTERVAL - this.fixedDelta / 2) {
+      this.foodHistory.push({ time: this.time, foodLeft: this.foodLeft });
+    }
+    const lastAnalytics = this.analytics[this.analytics.length - 1];
+    if (this.time - lastAnalytics.time >= ANALYTICS_INTERVAL - this.fixedDelta / 2) {
+      this.analytics.push(analyticsSample(this.time, this.players, this.foodLeft));
+    }
+  }
+
+  // Advance by dt seconds of simulated time; leftovers carry over to the next call.
+  // Stops on the tick the race ends. Returns the number of ticks run.
+  step(dt: number): number {
+    this.accumulator += dt;
+    const maxTicks = this.config.maxTicksPerStep ?? DEFAULT_MAX_TICKS_PER_STEP;
+    let ticks = 0;
+    while (this.accumulator >= this.fixedDelta && ticks < maxTicks && !this.end) {
+      this.tick();
+      this.accumulator -= this.fixedDelta;
+      ticks++;
+    }
+    // Drop time we could not catch up on rather than spiralling, and any left after the end
+    if (ticks === maxTicks || this.end) this.accumulator = 0;
+    return ticks;
+  }
+
+  // Run headlessly for up to `seconds` of simulated time, stopping early if the race finishes
+  run(seconds: number): number {
+    const endTime = this.time + seconds;
+    let ticks = 0;
+    while (this.time + this.fixedDelta / 2 < endTime && !this.isFinished) {
+      this.tick();
+      ticks++;
+    }
+    return ticks;
+  }
+}
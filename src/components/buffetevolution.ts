@@ -0,0 +1,119 @@
+import type { Random } from './buffetrandom';
+
+// Generational mode. Each player carries a genome of heritable foraging traits;
+// after every race the best scorers breed (uniform crossover plus Gaussian
+// mutation) to fill the next race's player slots.
+
+export interface Genome {
+  speed: number; // multiplier on walking speed
+  perceptionRadius: number; // detection radius; evolving players always have limited sight
+  leaveThreshold: number; // MVT patch-leaving threshold, as a fraction of the environment's gain rate
+  turnRate: number; // how fast the player turns to a new heading, 1/s
+}
+
+export type GenomeTrait = keyof Genome;
+
+export interface TraitInfo {
+  key: GenomeTrait;
+  label: string;
+  min: number;
+  max: number;
+  initial: number;
+  mutationScale: number; // standard deviation of a mutation step
+}
+
+export const GENOME_TRAITS: TraitInfo[] = [
+  { key: 'speed', label: 'Speed', min: 0.5, max: 2, initial: 1, mutationScale: 0.1 },
+  { key: 'perceptionRadius', label: 'Perception', min: 2, max: 40, initial: 10, mutationScale: 2 },
+  { key: 'leaveThreshold', label: 'Leave threshold', min: 0.2, max: 3, initial: 1, mutationScale: 0.15 },
+  { key: 'turnRate', label: 'Turn rate', min: 1, max: 30, initial: 6, mutationScale: 1 },
+];
+
+export interface EvolutionSettings {
+  enabled: boolean;
+  mutationRate: number; // chance each trait mutates in a child, 0..1
+  initialSpread: number; // first generation: traits drawn within this fraction of their range around the initial value
+}
+
+export const DEFAULT_EVOLUTION_SETTINGS: EvolutionSettings = {
+  enabled: false,
+  mutationRate: 0.3,
+  initialSpread: 0.25,
+};
+
+export interface TraitStats {
+  mean: number;
+  variance: number;
+}
+
+export interface GenerationRecord {
+  generation: number;
+  traits: Record<GenomeTrait, TraitStats>;
+  meanFitness: number;
+  bestFitness: number;
+}
+
+function clampTrait(info: TraitInfo, value: number): number {
+  return Math.max(info.min, Math.min(info.max, value));
+}
+
+// Standard normal draw (Box-Muller)
+function gaussian(random: Random): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+export function initialGenomes(count: number, settings: EvolutionSettings, random: Random): Genome[] {
+  return Array.from({ length: count }, () => {
+    const genome = {} as Genome;
+    GENOME_TRAITS.forEach(info => {
+      const spread = (info.max - info.min) * settings.initialSpread;
+      genome[info.key] = clampTrait(info, info.initial + (random() * 2 - 1) * spread);
+    });
+    return genome;
+  });
+}
+
+// Truncation selection: the top half (at least one) are parents, the very best is
+// carried over unchanged, and the remaining slots are filled by mutated offspring
+export function nextGeneration(
+  genomes: Genome[],
+  fitness: number[],
+  settings: EvolutionSettings,
+  random: Random
+): Genome[] {
+  if (genomes.length === 0) return [];
+  const ranked = genomes
+    .map((genome, i) => ({ genome, fitness: fitness[i] ?? 0 }))
+    .sort((a, b) => b.fitness - a.fitness)
+    .map(entry => entry.genome);
+  const parents = ranked.slice(0, Math.max(1, Math.ceil(ranked.length / 2)));
+  const children: Genome[] = [{ ...ranked[0] }];
+  while (children.length < genomes.length) {
+    const mother = parents[Math.floor(random() * parents.length)];
+    const father = parents[Math.floor(random() * parents.length)];
+    const child = {} as Genome;
+    GENOME_TRAITS.forEach(info => {
+      let value = random() < 0.5 ? mother[info.key] : father[info.key];
+      if (random() < settings.mutationRate) value += gaussian(random) * info.mutationScale;
+      child[info.key] = clampTrait(info, value);
+    });
+    children.push(child);
+  }
+  return children;
+}
+
+export function summarizeGeneration(generation: number, genomes: Genome[], fitness: number[]): GenerationRecord {
+  const traits = {} as Record<GenomeTrait, TraitStats>;
+  GENOME_TRAITS.forEach(({ key }) => {
+    const values = genomes.map(g => g[key]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length);
+    traits[key] = { mean, variance };
+  });
+  return {
+    generation,
+    traits,
+    meanFitness: fitness.reduce((sum, f) => sum + f, 0) / Math.max(1, fitness.length),
+    bestFitness: fitness.length ? Math.max(...fitness) : 0,
+  };
+}
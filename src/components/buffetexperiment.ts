@@ -0,0 +1,220 @@
+import { SimulationEngine } from './buffetengine';
+import type { StrategyId } from './buffetstrategies';
+import { deriveSeed } from './buffetrandom';
+import { gini } from './buffetanalytics';
+import { toCsv } from './buffettelemetry';
+
+// Batch experiments: a definition lists the levels of each factor, every
+// combination is a condition, and each condition is raced headlessly once per
+// replicate with its own seed. Results are summarised as means with 95%
+// confidence intervals.
+
+export interface ExperimentDefinition {
+  playerCounts: number[];
+  foodAmounts: number[];
+  distributions: string[]; // food distribution ids
+  strategyMixes: StrategyId[][]; // each mix is dealt out to the player slots in turn
+  replicates: number;
+  seed: number; // replicate r of every condition uses the same derived seed, so conditions are paired
+  seconds: number; // simulated time limit per run
+  mapSize: number;
+}
+
+export const DEFAULT_EXPERIMENT: ExperimentDefinition = {
+  playerCounts: [4],
+  foodAmounts: [200],
+  distributions: ['uniform', 'gaussian-patches'],
+  strategyMixes: [['greedy'], ['greedy', 'mvt']],
+  replicates: 10,
+  seed: 1,
+  seconds: 60,
+  mapSize: 40,
+};
+
+export interface ExperimentCondition {
+  index: number;
+  playerCount: number;
+  foodAmount: number;
+  distribution: string;
+  strategyMix: StrategyId[];
+}
+
+export interface RunResult {
+  condition: number; // ExperimentCondition.index
+  replicate: number;
+  seed: number;
+  scores: number[];
+  strategies: StrategyId[];
+  meanIntake: number;
+  gini: number;
+  foodEaten: number; // fraction of the starting food eaten
+  duration: number; // simulated seconds until the race finished or timed out
+}
+
+export interface Estimate {
+  mean: number;
+  low: number; // 95% confidence interval
+  high: number;
+  n: number;
+}
+
+export interface ConditionSummary {
+  condition: ExperimentCondition;
+  meanIntake: Estimate;
+  gini: Estimate;
+  foodEaten: Estimate;
+  duration: Estimate;
+  intakeByStrategy: Record<StrategyId, Estimate>; // mean intake per player using each strategy
+}
+
+const EXPERIMENT_SEED_SALT = 0xe4e7;
+
+export function totalRuns(definition: ExperimentDefinition): number {
+  return expandConditions(definition).length * definition.replicates;
+}
+
+// Full factorial design, in a stable order
+export function expandConditions(definition: ExperimentDefinition): ExperimentCondition[] {
+  const conditions: ExperimentCondition[] = [];
+  for (const playerCount of definition.playerCounts) {
+    for (const foodAmount of definition.foodAmounts) {
+      for (const distribution of definition.distributions) {
+        for (const strategyMix of definition.strategyMixes) {
+          conditions.push({ index: conditions.length, playerCount, foodAmount, distribution, strategyMix });
+        }
+      }
+    }
+  }
+  return conditions;
+}
+
+export function mixLabel(mix: StrategyId[]): string {
+  return mix.join('+');
+}
+
+export function runCondition(condition: ExperimentCondition, replicate: number, definition: ExperimentDefinition): RunResult {
+  const seed = deriveSeed(definition.seed + replicate, EXPERIMENT_SEED_SALT);
+  const strategies = Array.from({ length: condition.playerCount }, (_, i) => condition.strategyMix[i % condition.strategyMix.length]);
+  const engine = new SimulationEngine({
+    playerCount: condition.playerCount,
+    foodAmount: condition.foodAmount,
+    mapSize: definition.mapSize,
+    seed,
+    playerStrategies: strategies,
+    foodDistribution: { id: condition.distribution },
+  });
+  const startingFood = engine.foodLeft;
+  engine.run(definition.seconds);
+  const scores = engine.players.map(p => p.score);
+  return {
+    condition: condition.index,
+    replicate,
+    seed,
+    scores,
+    strategies,
+    meanIntake: scores.reduce((sum, s) => sum + s, 0) / Math.max(1, scores.length),
+    gini: gini(scores),
+    foodEaten: startingFood > 0 ? (startingFood - engine.foodLeft) / startingFood : 0,
+    duration: engine.time,
+  };
+}
+
+// Two-sided 95% Student t critical values for 1..30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export function estimate(values: number[]): Estimate {
+  const n = values.length;
+  const mean = n ? values.reduce((sum, v) => sum + v, 0) / n : 0;
+  if (n < 2) return { mean, low: mean, high: mean, n };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const half = (T_95[n - 2] ?? 1.96) * Math.sqrt(variance / n);
+  return { mean, low: mean - half, high: mean + half, n };
+}
+
+export function summarizeExperiment(conditions: ExperimentCondition[], results: RunResult[]): ConditionSummary[] {
+  return conditions.map(condition => {
+    const runs = results.filter(r => r.condition === condition.index);
+    // Per run, the mean intake of the players using each strategy
+    const byStrategy: Record<StrategyId, number[]> = {};
+    runs.forEach(run => {
+      new Set(run.strategies).forEach(strategy => {
+        const scores = run.scores.filter((_, i) => run.strategies[i] === strategy);
+        if (!byStrategy[strategy]) byStrategy[strategy] = [];
+        byStrategy[strategy].push(scores.reduce((sum, s) => sum + s, 0) / scores.length);
+      });
+    });
+    const intakeByStrategy: Record<StrategyId, Estimate> = {};
+    Object.entries(byStrategy).forEach(([strategy, values]) => {
+      intakeByStrategy[strategy] = estimate(values);
+    });
+    return {
+      condition,
+      meanIntake: estimate(runs.map(r => r.meanIntake)),
+      gini: estimate(runs.map(r => r.gini)),
+      foodEaten: estimate(runs.map(r => r.foodEaten)),
+      duration: estimate(runs.map(r => r.duration)),
+      intakeByStrategy,
+    };
+  });
+}
+
+type SummaryMetric = 'meanIntake' | 'gini' | 'foodEaten' | 'duration';
+const SUMMARY_METRICS: SummaryMetric[] = ['meanIntake', 'gini', 'foodEaten', 'duration'];
+
+// One row per condition: factor levels, then mean and CI bounds of every metric
+// and of the intake of each strategy in the experiment
+export function summariesToCsv(summaries: ConditionSummary[]): string {
+  const strategies = Array.from(new Set(summaries.flatMap(s => Object.keys(s.intakeByStrategy))));
+  const rows = summaries.map(summary => {
+    const row: Record<string, string | number> = {
+      condition: summary.condition.index,
+      playerCount: summary.condition.playerCount,
+      foodAmount: summary.condition.foodAmount,
+      distribution: summary.condition.distribution,
+      strategyMix: mixLabel(summary.condition.strategyMix),
+      runs: summary.meanIntake.n,
+    };
+    const put = (name: string, value: Estimate | undefined) => {
+      row[`${name}_mean`] = value ? value.mean : '';
+      row[`${name}_ci_low`] = value ? value.low : '';
+      row[`${name}_ci_high`] = value ? value.high : '';
+    };
+    SUMMARY_METRICS.forEach(metric => put(metric, summary[metric]));
+    strategies.forEach(strategy => put(`intake_${strategy}`, summary.intakeByStrategy[strategy]));
+    return row;
+  });
+  const columns = rows.length ? Object.keys(rows[0]) : [];
+  return toCsv(rows, columns);
+}
+
+// One row per run, with each player's score
+export function runsToCsv(conditions: ExperimentCondition[], results: RunResult[]): string {
+  const maxPlayers = Math.max(0, ...results.map(r => r.scores.length));
+  const rows = results.map(result => {
+    const condition = conditions[result.condition];
+    const row: Record<string, string | number> = {
+      condition: result.condition,
+      replicate: result.replicate,
+      seed: result.seed,
+      playerCount: condition.playerCount,
+      foodAmount: condition.foodAmount,
+      distribution: condition.distribution,
+      strategyMix: mixLabel(condition.strategyMix),
+      meanIntake: result.meanIntake,
+      gini: result.gini,
+      foodEaten: result.foodEaten,
+      duration: result.duration,
+    };
+    for (let i = 0; i < maxPlayers; i++) {
+      row[`p${i + 1}_strategy`] = result.strategies[i] ?? '';
+      row[`p${i + 1}_score`] = result.scores[i] ?? '';
+    }
+    return row;
+  });
+  const columns = rows.length ? Object.keys(rows[0]) : [];
+  return toCsv(rows, columns);
+}
@@ -0,0 +1,36 @@
+import { expandConditions, runCondition, type ExperimentDefinition, type RunResult } from './buffetexperiment';
+import { loadQAgentPolicy, type QTable } from './buffetagents'; // importing registers the Q-learning agent so mixes can use it
+
+// Web Worker that races an experiment's runs one after another and reports each
+// result as it comes in. Terminate the worker to cancel.
+
+export interface ExperimentRequest {
+  definition: ExperimentDefinition;
+  agentPolicy: QTable | null; // the policy trained or loaded in the top bar; the untrained default when null
+}
+
+export type ExperimentMessage =
+  | { type: 'result'; result: RunResult; done: number; total: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+self.onmessage = (event: MessageEvent<ExperimentRequest>) => {
+  const { definition, agentPolicy } = event.data;
+  const post = (message: ExperimentMessage) => self.postMessage(message);
+  try {
+    if (agentPolicy) loadQAgentPolicy(agentPolicy);
+    const conditions = expandConditions(definition);
+    const total = conditions.length * definition.replicates;
+    let done = 0;
+    for (const condition of conditions) {
+      for (let replicate = 0; replicate < definition.replicates; replicate++) {
+        const result = runCondition(condition, replicate, definition);
+        done += 1;
+        post({ type: 'result', result, done, total });
+      }
+    }
+    post({ type: 'done' });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,330 @@
+import type { Random } from './buffetrandom';
+
+// Food placement generators. A distribution only decides where food goes (and
+// optionally which patch/type it belongs to); the engine turns spawns into FoodItems.
+
+export type FoodType = 'cube' | 'sphere' | 'triangle';
+
+export const FOOD_TYPES: FoodType[] = ['cube', 'sphere', 'triangle'];
+
+export interface FoodSpawn {
+  x: number;
+  z: number;
+  patchId?: number;
+  type?: FoodType;
+}
+
+// Hand-authored layouts, loaded from JSON. Either list items explicitly or
+// describe Gaussian patches; a layout overrides the food amount.
+export const MAX_FOOD_ITEMS = 20000; // the most food a race can hold, hand-authored layouts included
+
+export interface FoodLayout {
+  items?: { x: number; z: number; type?: FoodType; patchId?: number }[];
+  patches?: { x: number; z: number; count: number; spread?: number }[];
+}
+
+export interface FoodDistributionParams {
+  patchCount: number;
+  patchSpread: number; // standard deviation of a Gaussian patch, in world units
+  patchRichness: number[]; // relative weights per patch, cycled if shorter than patchCount
+  background: number; // fraction of food scattered uniformly between patches, 0..1
+  minDistance: number; // Poisson-disc spacing; 0 derives it from map size and amount
+  ringCount: number;
+  layout?: FoodLayout;
+}
+
+export const DEFAULT_DISTRIBUTION_PARAMS: FoodDistributionParams = {
+  patchCount: 5,
+  patchSpread: 3,
+  patchRichness: [1],
+  background: 0,
+  minDistance: 0,
+  ringCount: 3,
+};
+
+// What the UI and engine config carry: a registry ID plus any overridden params
+export interface FoodDistributionSettings {
+  id: string;
+  params?: Partial<FoodDistributionParams>;
+}
+
+export interface FoodDistribution {
+  id: string;
+  label: string;
+  description: string;
+  generate: (count: number, mapSize: number, random: Random, params: FoodDistributionParams) => FoodSpawn[];
+}
+
+// Keep food clear of the walls
+const EDGE_MARGIN = 0.5;
+// Food a distribution leaves unassigned is grouped into square patches this wide
+export const GRID_PATCH_SIZE = 10;
+
+// Patch ID for an unassigned item: its cell in a GRID_PATCH_SIZE grid, numbered from firstId
+export function gridPatchId(x: number, z: number, mapSize: number, firstId = 0): number {
+  const cols = Math.max(1, Math.ceil((mapSize * 2) / GRID_PATCH_SIZE));
+  const cell = (v: number) => Math.max(0, Math.min(cols - 1, Math.floor((v + mapSize) / GRID_PATCH_SIZE)));
+  return firstId + cell(z) * cols + cell(x);
+}
+
+function clampToMap(value: number, mapSize: number): number {
+  const limit = mapSize - EDGE_MARGIN;
+  return Math.max(-limit, Math.min(limit, value));
+}
+
+function uniformCoord(random: Random, mapSize: number): number {
+  const limit = mapSize - EDGE_MARGIN;
+  return random() * limit * 2 - limit;
+}
+
+// Box-Muller standard normal
+function gaussian(random: Random): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function uniformSpawns(count: number, mapSize: number, random: Random): FoodSpawn[] {
+  const spawns: FoodSpawn[] = [];
+  for (let i = 0; i < count; i++) {
+    spawns.push({ x: uniformCoord(random, mapSize), z: uniformCoord(random, mapSize) });
+  }
+  return spawns;
+}
+
+// Split `count` across weights, handing out rounding leftovers to the largest remainders
+function apportion(count: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const exact = weights.map(w => (count * w) / total);
+  const counts = exact.map(Math.floor);
+  let left = count - counts.reduce((sum, c) => sum + c, 0);
+  const order = exact.map((e, i) => ({ i, r: e - counts[i] })).sort((a, b) => b.r - a.r);
+  for (let k = 0; left > 0; k = (k + 1) % order.length, left--) counts[order[k].i]++;
+  return counts;
+}
+
+function gaussianPatchSpawns(
+  patches: { x: number; z: number; count: number; spread: number }[],
+  mapSize: number,
+  random: Random
+): FoodSpawn[] {
+  const spawns: FoodSpawn[] = [];
+  patches.forEach((patch, patchId) => {
+    for (let i = 0; i < patch.count; i++) {
+      spawns.push({
+        x: clampToMap(patch.x + gaussian(random) * patch.spread, mapSize),
+        z: clampToMap(patch.z + gaussian(random) * patch.spread, mapSize),
+        patchId,
+      });
+    }
+  });
+  return spawns;
+}
+
+const uniformDistribution: FoodDistribution = {
+  id: 'uniform',
+  label: 'Uniform',
+  description: 'Food scattered uniformly at random over the whole map.',
+  generate: (count, mapSize, random) => uniformSpawns(count, mapSize, random),
+};
+
+const gaussianPatchesDistribution: FoodDistribution = {
+  id: 'gaussian-patches',
+  label: 'Gaussian Patches',
+  description: 'N Gaussian clusters whose relative richness is set per patch.',
+  generate: (count, mapSize, random, params) => {
+    const patchCount = Math.max(1, Math.floor(params.patchCount));
+    const backgroundCount = Math.round(count * Math.max(0, Math.min(1, params.background)));
+    const weights = Array.from({ length: patchCount }, (_, i) =>
+      Math.max(0, params.patchRichness[i % Math.max(1, params.patchRichness.length)] ?? 1));
+    const counts = apportion(count - backgroundCount, weights);
+    // Keep centres far enough in that most of a patch lands on the map
+    const centreLimit = Math.max(0, mapSize - EDGE_MARGIN - params.patchSpread * 2);
+    const patches = counts.map(patchItems => ({
+      x: random() * centreLimit * 2 - centreLimit,
+      z: random() * centreLimit * 2 - centreLimit,
+      count: patchItems,
+      spread: params.patchSpread,
+    }));
+    return [...gaussianPatchSpawns(patches, mapSize, random), ...uniformSpawns(backgroundCount, mapSize, random)];
+  },
+};
+
+// Bridson's algorithm; tops up uniformly if the map saturates before `count`
+const poissonDiscDistribution: FoodDistribution = {
+  id: 'poisson-disc',
+  label: 'Poisson-Disc',
+  description: 'Evenly spaced food with a minimum distance between items.',
+  generate: (count, mapSize, random, params) => {
+    const limit = mapSize - EDGE_MARGIN;
+    const side = limit * 2;
+    const r = params.minDistance > 0 ? params.minDistance : Math.sqrt((side * side) / Math.max(1, count)) * 0.75;
+    const cellSize = r / Math.SQRT2;
+    const cols = Math.max(1, Math.ceil(side / cellSize));
+    const grid = new Int32Array(cols * cols).fill(-1);
+    const points: FoodSpawn[] = [];
+    const active: number[] = [];
+    const cellOf = (v: number) => Math.min(cols - 1, Math.floor((v + limit) / cellSize));
+    const fits = (x: number, z: number) => {
+      if (x < -limit || x > limit || z < -limit || z > limit) return false;
+      const cx = cellOf(x);
+      const cz = cellOf(z);
+      for (let j = Math.max(0, cz - 2); j <= Math.min(cols - 1, cz + 2); j++) {
+        for (let i = Math.max(0, cx - 2); i <= Math.min(cols - 1, cx + 2); i++) {
+          const p = grid[j * cols + i];
+          if (p !== -1 && (points[p].x - x) ** 2 + (points[p].z - z) ** 2 < r * r) return false;
+        }
+      }
+      return true;
+    };
+    const add = (x: number, z: number) => {
+      grid[cellOf(z) * cols + cellOf(x)] = points.length;
+      active.push(points.length);
+      points.push({ x, z });
+    };
+    if (count > 0) add(uniformCoord(random, mapSize), uniformCoord(random, mapSize));
+    while (active.length > 0 && points.length < count) {
+      const slot = Math.floor(random() * active.length);
+      const origin = points[active[slot]];
+      let placed = false;
+      for (let attempt = 0; attempt < 30; attempt++) {
+        const angle = random() * Math.PI * 2;
+        const distance = r * (1 + random());
+        const x = origin.x + Math.cos(angle) * distance;
+        const z = origin.z + Math.sin(angle) * distance;
+        if (fits(x, z)) {
+          add(x, z);
+          placed = true;
+          break;
+        }
+      }
+      if (!placed) {
+        active[slot] = active[active.length - 1];
+        active.pop();
+      }
+    }
+    return [...points, ...uniformSpawns(count - points.length, mapSize, random)];
+  },
+};
+
+const ringsDistribution: FoodDistribution = {
+  id: 'rings',
+  label: 'Rings',
+  description: 'Concentric rings around the centre; each ring is its own patch.',
+  generate: (count, mapSize, random, params) => {
+    const ringCount = Math.max(1, Math.floor(params.ringCount));
+    const maxRadius = mapSize - EDGE_MARGIN - 1;
+    const radii = Array.from({ length: ringCount }, (_, i) => (maxRadius * (i + 1)) / (ringCount + 0.5));
+    // Outer rings are longer, so give them proportionally more food
+    const counts = apportion(count, radii);
+    const spawns: FoodSpawn[] = [];
+    counts.forEach((ringItems, patchId) => {
+      for (let i = 0; i < ringItems; i++) {
+        const angle = random() * Math.PI * 2;
+        const radius = radii[patchId] + gaussian(random) * params.patchSpread * 0.3;
+        spawns.push({
+          x: clampToMap(Math.cos(angle) * radius, mapSize),
+          z: clampToMap(Math.sin(angle) * radius, mapSize),
+          patchId,
+        });
+      }
+    });
+    return spawns;
+  },
+};
+
+const gradientDistribution: FoodDistribution = {
+  id: 'gradient',
+  label: 'Gradient',
+  description: 'Density rises linearly from the -x wall to the +x wall.',
+  generate: (count, mapSize, random) => {
+    const limit = mapSize - EDGE_MARGIN;
+    const spawns: FoodSpawn[] = [];
+    for (let i = 0; i < count; i++) {
+      // Inverse CDF of a linear density on [-limit, limit]
+      spawns.push({ x: -limit + 2 * limit * Math.sqrt(random()), z: uniformCoord(random, mapSize) });
+    }
+    return spawns;
+  },
+};
+
+const layoutDistribution: FoodDistribution = {
+  id: 'layout',
+  label: 'JSON Layout',
+  description: 'Food positions or patches loaded from a JSON layout file.',
+  generate: (count, mapSize, random, params) => {
+    const layout = params.layout;
+    if (!layout) return uniformSpawns(count, mapSize, random);
+    const items: FoodSpawn[] = (layout.items ?? []).map(item => ({
+      x: clampToMap(item.x, mapSize),
+      z: clampToMap(item.z, mapSize),
+      type: item.type,
+      patchId: item.patchId,
+    }));
+    const patches = (layout.patches ?? []).map(patch => ({
+      x: patch.x,
+      z: patch.z,
+      count: Math.max(0, Math.floor(patch.count)),
+      spread: patch.spread ?? params.patchSpread,
+    }));
+    // Number layout patches after any patch IDs the explicit items already use
+    const firstPatchId = items.reduce((max, item) => Math.max(max, (item.patchId ?? -1) + 1), 0);
+    const patchSpawns = gaussianPatchSpawns(patches, mapSize, random)
+      .map(spawn => ({ ...spawn, patchId: (spawn.patchId ?? 0) + firstPatchId }));
+    return [...items, ...patchSpawns];
+  },
+};
+
+// Validate a parsed JSON layout; throws with a readable message on bad input
+export function parseFoodLayout(json: unknown): FoodLayout {
+  if (typeof json !== 'object' || json === null) throw new Error('Layout must be a JSON object');
+  const { items, patches } = json as FoodLayout;
+  if (items === undefined && patches === undefined) throw new Error('Layout needs an "items" or "patches" array');
+  const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  if (items !== undefined) {
+    if (!Array.isArray(items)) throw new Error('"items" must be an array');
+    items.forEach((item, i) => {
+      if (!isNumber(item?.x) || !isNumber(item?.z)) throw new Error(`items[${i}] needs numeric x and z`);
+      if (item.type !== undefined && !['cube', 'sphere', 'triangle'].includes(item.type)) {
+        throw new Error(`items[${i}].type must be cube, sphere or triangle`);
+      }
+      if (item.patchId !== undefined && (!Number.isSafeInteger(item.patchId) || item.patchId < 0)) {
+        throw new Error(`items[${i}].patchId must be a whole number, 0 or more`);
+      }
+    });
+  }
+  if (patches !== undefined) {
+    if (!Array.isArray(patches)) throw new Error('"patches" must be an array');
+    patches.forEach((patch, i) => {
+      if (!isNumber(patch?.x) || !isNumber(patch?.z) || !isNumber(patch?.count)) {
+        throw new Error(`patches[${i}] needs numeric x, z and count`);
+      }
+      if (patch.count < 0) throw new Error(`patches[${i}].count must not be negative`);
+    });
+  }
+  // Counted the way the layout distribution spawns them
+  const total = (items?.length ?? 0) + (patches ?? []).reduce((sum, patch) => sum + Math.floor(patch.count), 0);
+  if (total < 1) throw new Error('Layout must place at least one food item');
+  if (total > MAX_FOOD_ITEMS) throw new Error(`Layout places ${total} food items; the most is ${MAX_FOOD_ITEMS}`);
+  return { items, patches };
+}
+
+// --- Registry ---
+const distributionRegistry = new Map<string, FoodDistribution>();
+
+export function registerFoodDistribution(distribution: FoodDistribution) {
+  distributionRegistry.set(distribution.id, distribution);
+}
+
+[uniformDistribution, gaussianPatchesDistribution, poissonDiscDistribution, ringsDistribution, gradientDistribution, layoutDistribution]
+  .forEach(registerFoodDistribution);
+
+export const DEFAULT_DISTRIBUTION_ID = uniformDistribution.id;
+
+export function getFoodDistribution(id: string | undefined): FoodDistribution {
+  return (id !== undefined && distributionRegistry.get(id)) || uniformDistribution;
+}
+
+export function listFoodDistributions(): FoodDistribution[] {
+  return Array.from(distributionRegistry.values());
+}
@@ -0,0 +1,132 @@
+import type { RaceResult } from './buffetresults';
+import { parseScenario, type Scenario } from './buffetscenario';
+import { parseQTable, type QTable } from './buffetagents';
+
+// Local run history: finished races with the scenario that produced them, kept
+// in localStorage, newest first.
+
+export interface RunRecord {
+  id: string;
+  savedAt: number; // ms since the epoch
+  scenario: Scenario; // the top-bar setup the race was started with
+  result: RaceResult;
+  generation?: number; // generational mode: which generation raced; result.seed is its seed
+  agentPolicy?: QTable; // the Q-learning agent's policy, when a player used it
+}
+
+const STORAGE_KEY = 'buffet-run-history';
+export const MAX_RUNS = 100; // oldest runs are dropped beyond this
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// The fields the results table and mini-maps read
+function isPlayerResult(value: unknown): boolean {
+  return isObject(value) &&
+    ['id', 'rank', 'score', 'itemsEaten', 'distance', 'jumps', 'idleTime'].every(key => isNumber(value[key])) &&
+    typeof value.color === 'string' &&
+    (value.strategy === null || typeof value.strategy === 'string') &&
+    (value.meanCaptureInterval === null || isNumber(value.meanCaptureInterval)) &&
+    Array.isArray(value.path) && value.path.every(point => Array.isArray(point) && point.length === 2 && point.every(isNumber));
+}
+
+// A stored record, checked and with its scenario migrated; null for one that is corrupt
+// or from an older format
+function parseRunRecord(value: unknown): RunRecord | null {
+  if (!isObject(value) || typeof value.id !== 'string' || !isNumber(value.savedAt)) return null;
+  const { result } = value;
+  if (!isObject(result) || !['seed', 'duration', 'mapSize', 'foodEaten', 'gini'].every(key => isNumber(result[key]))) return null;
+  if (result.end !== null && !(isObject(result.end) && isNumber(result.end.time) && Array.isArray(result.end.reasons))) return null;
+  if (!Array.isArray(result.players) || !result.players.every(isPlayerResult)) return null;
+  if (value.generation !== undefined && !isNumber(value.generation)) return null;
+  try {
+    return {
+      id: value.id,
+      savedAt: value.savedAt,
+      scenario: parseScenario(value.scenario),
+      result: result as unknown as RaceResult,
+      ...(value.generation !== undefined && { generation: value.generation }),
+      ...(value.agentPolicy !== undefined && { agentPolicy: parseQTable(value.agentPolicy) }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Unreadable records are left out rather than breaking the whole history
+export function loadRunHistory(): RunRecord[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.map(parseRunRecord).filter((run): run is RunRecord => run !== null) : [];
+  } catch {
+    return [];
+  }
+}
+
+// When storage is full the oldest runs make room for newer ones; throws only when
+// not even the newest fits, or storage is unavailable
+function storeRunHistory(runs: RunRecord[]): RunRecord[] {
+  let kept = runs;
+  for (;;) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch {
+      if (kept.length <= 1) throw new Error('Could not save: browser storage is full or unavailable');
+      kept = kept.slice(0, -1);
+    }
+  }
+}
+
+export function createRunRecord(scenario: Scenario, result: RaceResult, extra: Pick<RunRecord, 'generation' | 'agentPolicy'> = {}): RunRecord {
+  const savedAt = Date.now();
+  return { id: `${savedAt.toString(36)}-${result.seed}`, savedAt, scenario, result, ...extra };
+}
+
+// Later generations raced bred genomes that only exist in that evolving session
+export function canRerun(run: RunRecord): boolean {
+  return (run.generation ?? 1) === 1;
+}
+
+// Returns the updated history; throws when it cannot be stored
+export function saveRun(record: RunRecord): RunRecord[] {
+  return storeRunHistory([record, ...loadRunHistory().filter(run => run.id !== record.id)].slice(0, MAX_RUNS));
+}
+
+export function deleteRun(id: string): RunRecord[] {
+  return storeRunHistory(loadRunHistory().filter(run => run.id !== id));
+}
+
+export function meanScore(result: RaceResult): number {
+  return result.players.reduce((sum, p) => sum + p.score, 0) / Math.max(1, result.players.length);
+}
+
+// Scenario settings as dotted paths ("food.regrowth.id", "agents[2].strategy"), for comparing runs
+function flattenSettings(value: unknown, path: string, out: Record<string, string>) {
+  if (path.endsWith('.layout')) {
+    out[path] = 'custom layout';
+  } else if (Array.isArray(value) && value.some(item => typeof item === 'object' && item !== null)) {
+    value.forEach((item, i) => flattenSettings(item, `${path}[${i}]`, out));
+  } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, v]) => flattenSettings(v, path ? `${path}.${key}` : key, out));
+  } else if (value !== undefined) {
+    out[path] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
+
+// Settings that differ between two scenarios; '–' stands for a setting one of them leaves at its default
+export function scenarioDiff(a: Scenario, b: Scenario): { path: string; a: string; b: string }[] {
+  const flatA: Record<string, string> = {};
+  const flatB: Record<string, string> = {};
+  flattenSettings(a, '', flatA);
+  flattenSettings(b, '', flatB);
+  const paths = Array.from(new Set([...Object.keys(flatA), ...Object.keys(flatB)])).sort();
+  return paths
+    .filter(path => flatA[path] !== flatB[path])
+    .map(path => ({ path, a: flatA[path] ?? '–', b: flatB[path] ?? '–' }));
+}
@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import { registerForagingStrategy, type ForagingStrategy } from './buffetstrategies';
+import type { Player } from './buffetplayers';
+
+// A player steered by a person. The UI turns keyboard or gamepad input into a
+// world-space walking direction and hands it to the engine's players before each
+// step; the strategy just replays it, so the engine itself stays input-free.
+
+export const HUMAN_STRATEGY_ID = 'human';
+
+export interface HumanInput {
+  x: number; // walking direction in world space; length 0..1 is the fraction of full speed
+  z: number;
+  jump: boolean; // jump once, on the next tick
+}
+
+export const NO_HUMAN_INPUT: HumanInput = { x: 0, z: 0, jump: false };
+
+const humanStrategy: ForagingStrategy = {
+  id: HUMAN_STRATEGY_ID,
+  label: 'You',
+  description: 'Steered by you: WASD/arrows or the left stick to walk, Q/E or the right stick to turn, space or A to jump. Eats whatever it walks into.',
+  manual: true,
+  createState: () => ({ moveX: 0, moveZ: 0, jump: 0 }),
+  decide: player => {
+    const state = player.strategyState!;
+    const jump = state.jump === 1;
+    state.jump = 0; // a jump is a one-off, not held
+    // Always a heading, even a zero one, so limited perception never starts exploring for us
+    const heading = new THREE.Vector3(state.moveX, 0, state.moveZ);
+    return { target: null, heading, speed: Math.min(1, heading.length()), jump };
+  },
+};
+
+registerForagingStrategy(humanStrategy);
+
+// Pass this frame's input to every human-steered player
+export function steerHumans(players: Player[], input: HumanInput) {
+  players.forEach(player => {
+    if (player.strategyId !== HUMAN_STRATEGY_ID) return;
+    const jump = input.jump || player.strategyState?.jump === 1;
+    player.strategyState = { ...player.strategyState, moveX: input.x, moveZ: input.z, jump: jump ? 1 : 0 };
+  });
+}
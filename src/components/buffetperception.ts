@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import type { Player, FoodItem } from './buffetplayers';
+import type { ForagingContext } from './buffetstrategies';
+import { FOOD_TYPES, type FoodType } from './buffetfood';
+
+// Limited sensing. With perception on, a strategy's food queries only see items
+// within the player's detection radius and field of view (optionally hidden behind
+// other players), plus items it saw recently and still remembers.
+
+export interface PerceptionSettings {
+  enabled: boolean;
+  radius: number; // detection radius, world units
+  fieldOfView: number; // full cone angle in degrees centred on the facing direction; 360 sees all round
+  occlusion: boolean; // other players block the line of sight
+  memoryDuration: number; // seconds a seen item is remembered; 0 forgets as soon as it is out of sight
+}
+
+export const DEFAULT_PERCEPTION_SETTINGS: PerceptionSettings = {
+  enabled: false,
+  radius: 10,
+  fieldOfView: 120,
+  occlusion: false,
+  memoryDuration: 10,
+};
+
+const OCCLUDER_RADIUS = 0.6; // players block sight lines passing this close to them
+
+// Player rotations come from Matrix4.lookAt, which points -z at the target
+function facing(player: Player): THREE.Vector3 {
+  return new THREE.Vector3(0, 0, -1).applyQuaternion(player.quaternion).setY(0).normalize();
+}
+
+// Whether another player stands between `from` and `to` on the XZ plane
+function occluded(from: THREE.Vector3, to: THREE.Vector3, viewer: Player, players: Player[]): boolean {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const lengthSq = dx * dx + dz * dz;
+  if (lengthSq === 0) return false;
+  for (const other of players) {
+    if (other === viewer) continue;
+    const t = ((other.position.x - from.x) * dx + (other.position.z - from.z) * dz) / lengthSq;
+    if (t <= 0 || t >= 1) continue;
+    const px = from.x + t * dx - other.position.x;
+    const pz = from.z + t * dz - other.position.z;
+    if (px * px + pz * pz < OCCLUDER_RADIUS * OCCLUDER_RADIUS) return true;
+  }
+  return false;
+}
+
+// Food the player can see right now
+export function visibleFood(player: Player, context: ForagingContext, settings: PerceptionSettings): FoodItem[] {
+  const forward = facing(player);
+  const cosHalfAngle = Math.cos(THREE.MathUtils.degToRad(Math.min(360, settings.fieldOfView) / 2));
+  const toFood = new THREE.Vector3();
+  return context.foodWithin(player.position, settings.radius).filter(food => {
+    if (settings.fieldOfView < 360) {
+      toFood.subVectors(food.position, player.position).setY(0);
+      const distance = toFood.length();
+      if (distance > 0 && toFood.dot(forward) / distance < cosHalfAngle) return false;
+    }
+    return !settings.occlusion || !occluded(player.position, food.position, player, context.players);
+  });
+}
+
+// Refresh the player's memory with what it sees now and return everything it knows about
+function knownFood(player: Player, context: ForagingContext, settings: PerceptionSettings): FoodItem[] {
+  const visible = visibleFood(player, context, settings);
+  if (settings.memoryDuration <= 0) return visible;
+  const memory = player.foodMemory ?? new Map<number, number>();
+  player.foodMemory = memory;
+  visible.forEach(food => {
+    memory.set(food.id, context.time);
+  });
+  const known: FoodItem[] = [];
+  memory.forEach((seenAt, id) => {
+    // Forget stale sightings and food that has since been eaten
+    const food = context.foodItems[id]?.id === id ? context.foodItems[id] : context.foodItems.find(f => f.id === id);
+    if (!food || food.consumed || context.time - seenAt > settings.memoryDuration) {
+      memory.delete(id);
+    } else {
+      known.push(food);
+    }
+  });
+  return known;
+}
+
+// The world as this player perceives it: food queries are answered from what it
+// can see or remember; everything else passes through unchanged
+export function perceivedContext(player: Player, context: ForagingContext, settings: PerceptionSettings): ForagingContext {
+  const known = knownFood(player, context, settings);
+  const byDistance = (position: THREE.Vector3) =>
+    (a: FoodItem, b: FoodItem) => position.distanceToSquared(a.position) - position.distanceToSquared(b.position);
+  return {
+    ...context,
+    foodItems: known,
+    nearestFood: (position, filter) => {
+      let nearest: FoodItem | null = null;
+      let nearestDistanceSq = Infinity;
+      for (const food of known) {
+        if (filter && !filter(food)) continue;
+        const distanceSq = position.distanceToSquared(food.position);
+        if (distanceSq < nearestDistanceSq) {
+          nearestDistanceSq = distanceSq;
+          nearest = food;
+        }
+      }
+      return nearest;
+    },
+    kNearestFood: (position, k) => known.slice().sort(byDistance(position)).slice(0, k),
+    foodWithin: (position, radius) => known.filter(food => position.distanceToSquared(food.position) <= radius * radius),
+    // Scaled up from the ground in sight to the whole map, so density estimates
+    // (the optimal diet's encounter rates) rest only on food the player knows of
+    foodLeftByType: () => {
+      const counts: Record<FoodType, number> = { cube: 0, sphere: 0, triangle: 0 };
+      known.forEach(food => {
+        counts[food.type]++;
+      });
+      const mapArea = (2 * context.mapSize) ** 2;
+      const sightArea = (Math.PI * settings.radius ** 2 * Math.min(360, settings.fieldOfView)) / 360;
+      const scale = Number.isFinite(mapArea) ? Math.max(1, mapArea / sightArea) : 1;
+      FOOD_TYPES.forEach(type => {
+        counts[type] *= scale;
+      });
+      return counts;
+    },
+  };
+}
@@ -1,4 +1,21 @@
 import * as THREE from 'three';
+import {
+  exploreDecision,
+  getForagingStrategy,
+  type ForagingContext,
+  type ForagingDecision,
+  type StrategyId,
+  type StrategyState,
+} from './buffetstrategies';
+import type { Random } from './buffetrandom';
+import type { SpatialGrid } from './buffetspatial';
+import type { FoodType } from './buffetfood';
+import { DEFAULT_SOCIAL_SETTINGS, findThief, scroungerStrategy, type ForagerRole, type SocialSettings } from './buffetsocial';
+import { chargeEnergy, feedEnergy, isAlive, type EnergySettings } from './buffetenergy';
+import { DEFAULT_FOOD_VALUES, type FoodValues } from './buffetdiet';
+import { perceivedContext, type PerceptionSettings } from './buffetperception';
+import { vigilanceDecision, type PredationSettings, type Predator } from './buffetpredators';
+import type { Genome } from './buffetevolution';
 
 export interface Player {
   id: number;
@@ -9,59 +26,230 @@ export interface Player {
   color: string;
   isJumping?: boolean;
   verticalVelocity?: number;
+  strategyId?: StrategyId;
+  strategyState?: StrategyState;
+  // Patch bookkeeping: the patch of the last item eaten and when the player arrived there
+  patchId?: number;
+  patchEnteredAt?: number;
+  gainRate?: number; // smoothed intake rate, score per second
+  role?: ForagerRole; // producer unless set; scroungers ignore their strategy
+  lastCaptureAt?: number; // simulation time of the last item eaten
+  roleScores?: Record<ForagerRole, number>; // score earned while in each role
+  // Energy budget, only tracked when the energy model is enabled
+  energy?: number;
+  alive?: boolean; // alive unless explicitly false
+  energyGained?: number;
+  energySpent?: number;
+  diedAt?: number; // simulation time the player starved or was caught
+  causeOfDeath?: 'starvation' | 'predation';
+  handlingUntil?: number; // simulation time the item being eaten is finished; immobile until then
+  perception?: PerceptionSettings; // limited sensing; omniscient unless enabled
+  // Food id -> simulation time last seen. Updated in place rather than cloned every
+  // tick, so earlier snapshots of the player share it.
+  foodMemory?: Map<number, number>;
+  // Anti-predator vigilance: when the current scan ends, when the next one is due, and how long to keep fleeing
+  scanUntil?: number;
+  nextScanAt?: number;
+  fleeUntil?: number;
+  genome?: Genome; // heritable traits in generational mode
+  targetFoodId?: number; // food item the strategy steered towards this tick
+  distanceTravelled?: number; // ground distance covered so far
 }
 
 export interface FoodItem {
   id: number;
   position: THREE.Vector3;
-  type: 'cube' | 'sphere' | 'triangle';
+  type: FoodType;
   consumed: boolean;
   color: string;
+  patchId?: number; // set by patchy food distributions
+  consumedAt?: number; // simulation time it was eaten, for regrowth
 }
 
-const gravity = -18; // units/sec^2
-const jumpVelocity = 8; // initial jump velocity
+// One item eaten during an update, credited to whoever ended up with it
+export interface ConsumptionEvent {
+  time: number;
+  playerId: number;
+  foodId: number;
+  foodType: FoodType;
+  x: number;
+  z: number;
+  value: number;
+}
+
+export interface PhysicsSettings {
+  gravity: number; // units/sec^2, negative pulls down
+  jumpVelocity: number; // initial upward speed of a jump
+}
+
+export const DEFAULT_PHYSICS_SETTINGS: PhysicsSettings = {
+  gravity: -18,
+  jumpVelocity: 8,
+};
+
+const consumeRadius = 1.2;
+const gainRateTimeConstant = 2; // seconds of memory in the smoothed intake rate
+
+export interface BuffetUpdateOptions {
+  mapSize?: number; // half-width of the arena, used by strategies that steer off the walls
+  random?: Random; // defaults to Math.random; pass a seeded stream for reproducible races
+  foodIndex?: SpatialGrid<FoodItem>; // index of unconsumed food; kept in sync as food is eaten
+  time?: number; // current simulation time, stamped on eaten food
+  social?: SocialSettings; // producer-scrounger settings; defaults keep everyone a producer
+  energy?: EnergySettings; // metabolic costs and food calories; off unless enabled
+  foodValues?: FoodValues; // points and handling time per food type; defaults to 1 point, instant
+  predators?: Predator[]; // predators foragers watch out for
+  predation?: PredationSettings; // vigilance and fleeing parameters; required with predators
+  physics?: PhysicsSettings; // gravity and jump strength
+}
+
+// Food queries shared by every strategy during one update: backed by the
+// spatial index when one is supplied, otherwise by a linear scan. Queries read
+// context.foodItems, so swapping in a copy of the array is seen by all of them.
+function createForagingContext(
+  players: Player[],
+  foodItems: FoodItem[],
+  delta: number,
+  mapSize: number,
+  random: Random,
+  time: number,
+  social: SocialSettings,
+  foodValues: FoodValues,
+  foodIndex?: SpatialGrid<FoodItem>
+): ForagingContext {
+  const totalScore = players.reduce((sum, p) => sum + p.score, 0);
+  // Counted on first use only; most strategies never ask
+  let foodLeftByType: Record<FoodType, number> | null = null;
+  const context: ForagingContext = {
+    players,
+    foodItems,
+    foodLeft: foodIndex ? foodIndex.size : foodItems.filter(food => !food.consumed).length,
+    delta,
+    mapSize,
+    random,
+    time,
+    averageGainRate: time > 0 && players.length > 0 ? totalScore / (players.length * time) : 0,
+    social,
+    foodValues,
+    foodLeftByType: () => {
+      if (!foodLeftByType) {
+        foodLeftByType = { cube: 0, sphere: 0, triangle: 0 };
+        for (const food of context.foodItems) {
+          if (!food.consumed) foodLeftByType[food.type]++;
+        }
+      }
+      return foodLeftByType;
+    },
+    nearestFood: (position, filter) => {
+      if (foodIndex) return foodIndex.nearest(position, filter);
+      let nearest: FoodItem | null = null;
+      let nearestDistanceSq = Infinity;
+      for (const food of context.foodItems) {
+        if (food.consumed || (filter && !filter(food))) continue;
+        const distanceSq = position.distanceToSquared(food.position);
+        if (distanceSq < nearestDistanceSq) {
+          nearestDistanceSq = distanceSq;
+          nearest = food;
+        }
+      }
+      return nearest;
+    },
+    kNearestFood: (position, k) => {
+      if (foodIndex) return foodIndex.kNearest(position, k);
+      return context.foodItems
+        .filter(food => !food.consumed)
+        .sort((a, b) => position.distanceToSquared(a.position) - position.distanceToSquared(b.position))
+        .slice(0, k);
+    },
+    foodWithin: (position, radius) => {
+      if (foodIndex) return foodIndex.withinRadius(position, radius);
+      const radiusSq = radius * radius;
+      return context.foodItems.filter(food => !food.consumed && position.distanceToSquared(food.position) <= radiusSq);
+    },
+  };
+  return context;
+}
+
+// Where a food item sits in the food array. The engine keeps every item at the index
+// of its id (eaten and regrown items are replaced in place), so this is O(1) there;
+// other callers fall back to a scan.
+function foodSlot(foodItems: FoodItem[], food: FoodItem): number {
+  return foodItems[food.id] === food ? food.id : foodItems.indexOf(food);
+}
 
 export function updateBuffetPlayers(
   players: Player[],
   foodItems: FoodItem[],
-  delta: number
-): { players: Player[]; foodItems: FoodItem[] } {
+  delta: number,
+  options: BuffetUpdateOptions = {}
+): { players: Player[]; foodItems: FoodItem[]; consumptions: ConsumptionEvent[] } {
   const updatedPlayers = players.map(p => ({
     ...p,
     velocity: new THREE.Vector3(p.velocity.x, p.velocity.y, p.velocity.z),
     position: new THREE.Vector3(p.position.x, p.position.y, p.position.z),
     quaternion: new THREE.Quaternion(p.quaternion.x, p.quaternion.y, p.quaternion.z, p.quaternion.w),
     isJumping: p.isJumping,
-    verticalVelocity: p.verticalVelocity ?? 0
+    verticalVelocity: p.verticalVelocity ?? 0,
+    strategyState: p.strategyState ? { ...p.strategyState } : undefined
   }));
-  const updatedFoodItems = foodItems.map(f => ({ ...f, position: f.position.clone() }));
+  // Food is copy-on-write: the array is only copied once something is eaten,
+  // untouched items are shared with the previous state and eaten ones are
+  // replaced by a consumed copy
+  let updatedFoodItems = foodItems;
+  const eaten = new Set<FoodItem>();
+  const consumptions: ConsumptionEvent[] = [];
+  const { foodIndex } = options;
+  const random = options.random ?? Math.random;
+  const time = options.time ?? 0;
+  const social = options.social ?? DEFAULT_SOCIAL_SETTINGS;
+  const energy = options.energy?.enabled ? options.energy : null;
+  const foodValues = options.foodValues ?? DEFAULT_FOOD_VALUES;
+  const { gravity, jumpVelocity } = options.physics ?? DEFAULT_PHYSICS_SETTINGS;
+  const context = createForagingContext(
+    updatedPlayers, updatedFoodItems, delta, options.mapSize ?? Infinity, random, time, social, foodValues, foodIndex
+  );
   updatedPlayers.forEach(player => {
-    // AI movement logic - move toward nearest food
-    const availableFoodItems = updatedFoodItems.filter(food => !food.consumed);
-    if (availableFoodItems.length === 0) {
+    if (!isAlive(player)) return;
+    if (context.foodLeft === 0) {
       player.velocity.set(0, 0, 0);
+      player.targetFoodId = undefined;
+      if (energy) chargeEnergy(player, energy, 0, false, delta, time);
       return;
     }
-    // Find nearest food in 3D (not just XZ)
-    let nearestFood: FoodItem | null = null;
-    let nearestDistanceSq = Infinity;
-    for (const food of availableFoodItems) {
-      const distanceSq = player.position.distanceToSquared(food.position);
-      if (distanceSq < nearestDistanceSq) {
-        nearestDistanceSq = distanceSq;
-        nearestFood = food;
-      }
+    // Let the player's strategy (or its scrounger role) pick a target and/or heading; a person
+    // steering a player keeps control whatever its role
+    const own = getForagingStrategy(player.strategyId);
+    const strategy = player.role === 'scrounger' && !own.manual ? scroungerStrategy : own;
+    if (!player.strategyState) {
+      player.strategyState = strategy.createState ? strategy.createState(player) : {};
     }
-    if (!nearestFood) {
-      player.velocity.set(0, 0, 0);
-      return;
+    // A player still handling its last item stands still and cannot eat another
+    const handling = (player.handlingUntil ?? -Infinity) > time;
+    let decision: ForagingDecision = { target: null };
+    // Scanning for predators or fleeing from one takes priority over feeding
+    const vigilance = !handling && !strategy.manual && options.predators?.length && options.predation
+      ? vigilanceDecision(player, options.predators, options.predation, time, random)
+      : null;
+    if (vigilance) {
+      decision = vigilance;
+    } else if (!handling && player.perception?.enabled) {
+      // Strategies only see what the player can; with nothing in sight it keeps searching
+      decision = strategy.decide(player, perceivedContext(player, context, player.perception));
+      if (!decision.target && !decision.heading && player.role !== 'scrounger') decision = exploreDecision(player, context);
+    } else if (!handling) {
+      decision = strategy.decide(player, context);
     }
-    // Calculate direction to food in 3D
-    const direction = new THREE.Vector3().subVectors(nearestFood.position, player.position);
+    const { target, heading } = decision;
+    player.targetFoodId = target?.id;
+    const speedFactor = Math.max(0, Math.min(1, decision.speed ?? 1));
+    const direction = heading
+      ? heading.clone()
+      : target
+        ? new THREE.Vector3().subVectors(target.position, player.position)
+        : new THREE.Vector3();
     if (direction.lengthSq() > 0.0001) {
       direction.normalize();
-      const speed = 2 + Math.random() * 1;
+      const speed = (2 + random() * 1) * speedFactor * (player.genome?.speed ?? 1);
       player.velocity.x = direction.x * speed;
       player.velocity.y = 0; // Only move horizontally, vertical handled by jump
       player.velocity.z = direction.z * speed;
@@ -69,24 +257,34 @@ export function updateBuffetPlayers(
       player.velocity.x = 0;
       player.velocity.z = 0;
     }
-    // Look at food
+    // Look where we are going
     if (direction.lengthSq() > 0.0001) {
       const lookAtTarget = new THREE.Vector3().copy(player.position).add(direction);
       lookAtTarget.y = player.position.y;
       const targetQuaternion = new THREE.Quaternion();
       const lookAtMatrix = new THREE.Matrix4().lookAt(player.position, lookAtTarget, new THREE.Vector3(0, 1, 0));
       targetQuaternion.setFromRotationMatrix(lookAtMatrix);
-      player.quaternion.slerp(targetQuaternion, 0.1);
+      const turn = player.genome ? 1 - Math.exp(-player.genome.turnRate * delta) : 0.1;
+      player.quaternion.slerp(targetQuaternion, turn);
     }
     // --- JUMP LOGIC ---
-    // If food is above player and within 2 units horizontally, jump if not already jumping
-    const horizontalDist = Math.sqrt(
-      Math.pow(nearestFood.position.x - player.position.x, 2) +
-      Math.pow(nearestFood.position.z - player.position.z, 2)
-    );
-    if (!player.isJumping && nearestFood.position.y > player.position.y + 0.5 && horizontalDist < 2) {
+    // Jump when the strategy asks to, or if food is above player and within 2 units horizontally
+    let jumped = false;
+    if (decision.jump && !player.isJumping) {
       player.isJumping = true;
       player.verticalVelocity = jumpVelocity;
+      jumped = true;
+    }
+    if (target) {
+      const horizontalDist = Math.sqrt(
+        Math.pow(target.position.x - player.position.x, 2) +
+        Math.pow(target.position.z - player.position.z, 2)
+      );
+      if (!player.isJumping && target.position.y > player.position.y + 0.5 && horizontalDist < 2) {
+        player.isJumping = true;
+        player.verticalVelocity = jumpVelocity;
+        jumped = true;
+      }
     }
     // Gravity and jump update
     if (player.isJumping) {
@@ -104,14 +302,55 @@ export function updateBuffetPlayers(
     // Update position (XZ)
     player.position.x += player.velocity.x * delta;
     player.position.z += player.velocity.z * delta;
-    // Check for food consumption
-    if (nearestFood && player.position.distanceToSquared(nearestFood.position) < 1.2 * 1.2) {
-      const foodToConsume = updatedFoodItems.find(f => f.id === nearestFood!.id);
-      if (foodToConsume && !foodToConsume.consumed) {
-        foodToConsume.consumed = true;
-        player.score += 1;
+    const distance = Math.hypot(player.velocity.x * delta, player.velocity.z * delta);
+    player.distanceTravelled = (player.distanceTravelled ?? 0) + distance;
+    // Check for food consumption: the target, or whatever the player bumped into
+    const reachable = handling ? null : target ?? context.nearestFood(player.position);
+    if (reachable && !reachable.consumed && !eaten.has(reachable) &&
+        player.position.distanceToSquared(reachable.position) < consumeRadius * consumeRadius) {
+      eaten.add(reachable);
+      if (updatedFoodItems === foodItems) {
+        updatedFoodItems = foodItems.slice();
+        context.foodItems = updatedFoodItems;
       }
+      updatedFoodItems[foodSlot(updatedFoodItems, reachable)] = { ...reachable, consumed: true, consumedAt: time };
+      foodIndex?.remove(reachable);
+      context.foodLeft -= 1;
+      // A scrounger right next to a producer may snatch the item first
+      const eater = findThief(player, updatedPlayers, social, random) ?? player;
+      const role = eater.role ?? 'producer';
+      const { value, handlingTime } = foodValues[reachable.type];
+      eater.score += value;
+      eater.roleScores = { producer: 0, scrounger: 0, ...eater.roleScores, [role]: (eater.roleScores?.[role] ?? 0) + value };
+      eater.lastCaptureAt = time;
+      consumptions.push({
+        time,
+        playerId: eater.id,
+        foodId: reachable.id,
+        foodType: reachable.type,
+        x: reachable.position.x,
+        z: reachable.position.z,
+        value,
+      });
+      if (handlingTime > 0) eater.handlingUntil = time + handlingTime;
+      if (reachable.patchId !== eater.patchId) {
+        eater.patchId = reachable.patchId;
+        eater.patchEnteredAt = time;
+      }
+      if (energy) feedEnergy(eater, energy, reachable.type);
+    }
+    // Pay for this tick's living, moving and jumping
+    if (energy) {
+      chargeEnergy(player, energy, distance, jumped, delta, time);
     }
   });
-  return { players: updatedPlayers, foodItems: updatedFoodItems };
+  // Exponentially smoothed intake rate, the "instantaneous" gain rate of the MVT
+  if (delta > 0) {
+    const blend = 1 - Math.exp(-delta / gainRateTimeConstant);
+    updatedPlayers.forEach((player, i) => {
+      const instantRate = (player.score - players[i].score) / delta;
+      player.gainRate = (player.gainRate ?? 0) + (instantRate - (player.gainRate ?? 0)) * blend;
+    });
+  }
+  return { players: updatedPlayers, foodItems: updatedFoodItems, consumptions };
 } 
@@ -0,0 +1,233 @@
+import * as THREE from 'three';
+import type { Player } from './buffetplayers';
+import type { Random } from './buffetrandom';
+import type { ForagingDecision } from './buffetstrategies';
+import { isAlive } from './buffetenergy';
+
+// Predation risk. Predators wander until a forager comes within hunting range,
+// chase it with a leading pursuit and strike once close enough. Foragers trade
+// feeding time for safety: they pause to scan, flee when they spot a predator,
+// and are safer in groups (dilution).
+
+export interface Predator {
+  id: number;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  velocity: THREE.Vector3;
+  heading: number; // wandering direction, radians
+  targetId: number | null; // player being chased
+  restUntil: number; // simulation time the predator may hunt again after a strike
+  kills: number;
+}
+
+export interface PredationSettings {
+  count: number; // number of predators; 0 turns predation off
+  speed: number; // predator chase speed; foragers walk at 2-3
+  huntRadius: number; // predators notice foragers this close
+  attackRadius: number; // strike distance
+  captureProbability: number; // chance a strike on a lone, unaware forager kills it
+  restTime: number; // seconds a predator rests after each strike
+  scanInterval: number; // mean seconds between a forager's vigilance scans
+  scanDuration: number; // seconds a scan keeps the forager standing still
+  alertRadius: number; // a feeding forager notices predators this close
+  scanRadius: number; // a scanning forager notices predators this close
+  fleeDuration: number; // seconds a forager runs after spotting a predator
+  dilutionRadius: number; // foragers this close to the victim share the risk
+}
+
+export const DEFAULT_PREDATION_SETTINGS: PredationSettings = {
+  count: 0,
+  speed: 3,
+  huntRadius: 15,
+  attackRadius: 1,
+  captureProbability: 0.8,
+  restTime: 5,
+  scanInterval: 4,
+  scanDuration: 0.5,
+  alertRadius: 4,
+  scanRadius: 15,
+  fleeDuration: 3,
+  dilutionRadius: 5,
+};
+
+const WANDER_SPEED = 1.2;
+const WANDER_TURN = 1.5; // max heading change while wandering, radians/sec
+const VIGILANT_ESCAPE = 0.5; // strike success is multiplied by this against a scanning or fleeing forager
+const KILL_FEAR = 10; // fear added at a kill site, in predator-seconds
+export const FEAR_CELL_SIZE = 4;
+
+// Predators start scattered around the middle of the arena, away from the players' ring
+export function createPredators(count: number, mapSize: number, random: Random): Predator[] {
+  return Array.from({ length: count }, (_, id) => {
+    const angle = random() * Math.PI * 2;
+    const radius = random() * mapSize * 0.3;
+    const heading = random() * Math.PI * 2;
+    return {
+      id,
+      position: new THREE.Vector3(Math.cos(angle) * radius, 0.75, Math.sin(angle) * radius),
+      quaternion: new THREE.Quaternion(),
+      velocity: new THREE.Vector3(),
+      heading,
+      targetId: null,
+      restUntil: 0,
+      kills: 0,
+    };
+  });
+}
+
+function nearestPredator(position: THREE.Vector3, predators: Predator[]): Predator | null {
+  let nearest: Predator | null = null;
+  for (const predator of predators) {
+    if (!nearest || position.distanceToSquared(predator.position) < position.distanceToSquared(nearest.position)) {
+      nearest = predator;
+    }
+  }
+  return nearest;
+}
+
+export function isVigilant(player: Player, time: number): boolean {
+  return (player.scanUntil ?? -Infinity) > time || (player.fleeUntil ?? -Infinity) > time;
+}
+
+// Forager anti-predator behaviour for this tick. Returns a decision that overrides
+// the strategy (stand still to scan, or run away), or null to forage as usual.
+export function vigilanceDecision(
+  player: Player,
+  predators: Predator[],
+  settings: PredationSettings,
+  time: number,
+  random: Random
+): ForagingDecision | null {
+  const scanning = (player.scanUntil ?? -Infinity) > time;
+  const predator = nearestPredator(player.position, predators);
+  const noticeRadius = scanning ? settings.scanRadius : settings.alertRadius;
+  if (predator && player.position.distanceToSquared(predator.position) <= noticeRadius * noticeRadius) {
+    player.fleeUntil = time + settings.fleeDuration;
+    player.scanUntil = undefined;
+  }
+  if ((player.fleeUntil ?? -Infinity) > time && predator) {
+    const away = new THREE.Vector3().subVectors(player.position, predator.position).setY(0);
+    return { target: null, heading: away.lengthSq() > 0 ? away : new THREE.Vector3(1, 0, 0) };
+  }
+  if (scanning) return { target: null };
+  if (player.nextScanAt === undefined) player.nextScanAt = time + random() * settings.scanInterval;
+  if (time >= player.nextScanAt) {
+    // Head up: stop feeding for a moment to look around, then carry on
+    player.scanUntil = time + settings.scanDuration;
+    player.nextScanAt = time + settings.scanInterval * (0.5 + random());
+    return { target: null };
+  }
+  return null;
+}
+
+// Move every predator one tick and resolve strikes. Returns the new predators and
+// the ids of players killed this tick.
+export function updatePredators(
+  predators: Predator[],
+  players: Player[],
+  settings: PredationSettings,
+  delta: number,
+  time: number,
+  mapSize: number,
+  random: Random
+): { predators: Predator[]; kills: number[] } {
+  const kills: number[] = [];
+  const living = players.filter(isAlive);
+  const updated = predators.map(p => ({
+    ...p,
+    position: p.position.clone(),
+    quaternion: p.quaternion.clone(),
+    velocity: p.velocity.clone(),
+  }));
+  updated.forEach(predator => {
+    const resting = predator.restUntil > time;
+    // Keep chasing the current target while it stays in range, else pick the nearest
+    let target = resting ? undefined : living.find(p => p.id === predator.targetId && !kills.includes(p.id));
+    const huntRadiusSq = settings.huntRadius * settings.huntRadius;
+    if (target && predator.position.distanceToSquared(target.position) > huntRadiusSq) target = undefined;
+    if (!target && !resting) {
+      let bestDistanceSq = huntRadiusSq;
+      for (const player of living) {
+        if (kills.includes(player.id)) continue;
+        const distanceSq = predator.position.distanceToSquared(player.position);
+        if (distanceSq <= bestDistanceSq) {
+          bestDistanceSq = distanceSq;
+          target = player;
+        }
+      }
+    }
+    predator.targetId = target ? target.id : null;
+    const direction = new THREE.Vector3();
+    let speed = WANDER_SPEED;
+    if (target) {
+      // Aim where the target will be when we get there
+      const distance = predator.position.distanceTo(target.position);
+      const lead = target.velocity.clone().setY(0).multiplyScalar(distance / settings.speed);
+      direction.subVectors(target.position, predator.position).add(lead).setY(0);
+      speed = settings.speed;
+      if (distance <= settings.attackRadius) {
+        let groupSize = 0;
+        for (const player of living) {
+          if (player.position.distanceToSquared(target.position) <= settings.dilutionRadius ** 2) groupSize++;
+        }
+        const vigilance = isVigilant(target, time) ? VIGILANT_ESCAPE : 1;
+        if (random() < (settings.captureProbability * vigilance) / Math.max(1, groupSize)) {
+          kills.push(target.id);
+          predator.kills += 1;
+        }
+        predator.restUntil = time + settings.restTime;
+        predator.targetId = null;
+      }
+    } else {
+      predator.heading += (random() * 2 - 1) * WANDER_TURN * delta;
+      direction.set(Math.cos(predator.heading), 0, Math.sin(predator.heading));
+    }
+    if (direction.lengthSq() > 0.0001) {
+      direction.normalize();
+      predator.velocity.copy(direction).multiplyScalar(speed);
+      predator.position.addScaledVector(predator.velocity, delta);
+      const lookAt = new THREE.Matrix4().lookAt(predator.position, predator.position.clone().add(direction), new THREE.Vector3(0, 1, 0));
+      predator.quaternion.slerp(new THREE.Quaternion().setFromRotationMatrix(lookAt), 0.2);
+    }
+    // Turn back at the walls
+    if (Math.abs(predator.position.x) > mapSize || Math.abs(predator.position.z) > mapSize) {
+      predator.position.x = Math.max(-mapSize, Math.min(mapSize, predator.position.x));
+      predator.position.z = Math.max(-mapSize, Math.min(mapSize, predator.position.z));
+      predator.heading += Math.PI;
+    }
+  });
+  return { predators: updated, kills };
+}
+
+// Landscape of fear: predator presence accumulated on a coarse grid, with kill
+// sites weighted extra
+export class FearMap {
+  readonly cellSize: number;
+  readonly cols: number;
+  readonly values: Float32Array;
+  private readonly mapSize: number;
+  max = 0;
+
+  constructor(mapSize: number, cellSize = FEAR_CELL_SIZE) {
+    this.mapSize = mapSize;
+    this.cellSize = cellSize;
+    this.cols = Math.max(1, Math.ceil((mapSize * 2) / cellSize));
+    this.values = new Float32Array(this.cols * this.cols);
+  }
+
+  add(x: number, z: number, amount: number) {
+    const col = Math.min(this.cols - 1, Math.max(0, Math.floor((x + this.mapSize) / this.cellSize)));
+    const row = Math.min(this.cols - 1, Math.max(0, Math.floor((z + this.mapSize) / this.cellSize)));
+    const i = row * this.cols + col;
+    this.values[i] += amount;
+    if (this.values[i] > this.max) this.max = this.values[i];
+  }
+
+  recordPresence(predators: Predator[], delta: number) {
+    predators.forEach(p => this.add(p.position.x, p.position.z, delta));
+  }
+
+  recordKill(position: THREE.Vector3) {
+    this.add(position.x, position.z, KILL_FEAR);
+  }
+}
@@ -0,0 +1,34 @@
+// Seeded pseudo-random numbers so a race can be replayed from its seed.
+// Every random draw in the simulation goes through a Random rather than Math.random.
+
+export type Random = () => number; // uniform in [0, 1), like Math.random
+
+export const MAX_SEED = 0xffffffff;
+
+// mulberry32: tiny, fast and good enough for simulation jitter and placement
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Derive an independent stream from a seed, e.g. for visuals that must not
+// consume draws from the simulation stream
+export function deriveSeed(seed: number, salt: number): number {
+  return (Math.imul(seed ^ salt, 0x9e3779b1) ^ (seed >>> 16)) >>> 0;
+}
+
+// Fresh seed for a new race
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+export function clampSeed(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(MAX_SEED, Math.floor(value)));
+}
@@ -0,0 +1,145 @@
+import type { FoodItem } from './buffetplayers';
+import type { Random } from './buffetrandom';
+
+// Renewable food. Each tick the engine asks the active model which consumed
+// items grow back; models only pick slots, the engine restores them. The engine
+// keeps the list of eaten slots, so models never scan the whole food array.
+
+export interface RegrowthParams {
+  respawnDelay: number; // seconds before an eaten item reappears in place
+  growthRate: number; // logistic intrinsic growth rate r, per second
+  pulsePeriod: number; // seconds between seasonal pulses
+  pulseFraction: number; // share of eaten food restored by each pulse, 0..1
+}
+
+export const DEFAULT_REGROWTH_PARAMS: RegrowthParams = {
+  respawnDelay: 10,
+  growthRate: 0.1,
+  pulsePeriod: 30,
+  pulseFraction: 0.5,
+};
+
+export interface RegrowthSettings {
+  id: string;
+  params?: Partial<RegrowthParams>;
+}
+
+// Model memory between ticks (accumulators, pulse clocks), kept flat like strategy state
+export type RegrowthState = Record<string, number>;
+
+export interface RegrowthContext {
+  time: number;
+  delta: number;
+  random: Random;
+  params: RegrowthParams;
+  consumed: readonly number[]; // slots of the items eaten so far, in the order they were eaten
+  patchSizes: ReadonlyMap<number, number>; // items per patch at the start; -1 collects items without a patch
+}
+
+export interface RegrowthModel {
+  id: string;
+  label: string;
+  description: string;
+  // Indices into foodItems of consumed items that grow back this tick
+  regrow: (foodItems: FoodItem[], context: RegrowthContext, state: RegrowthState) => number[];
+}
+
+// Eaten slots in food-array order, so random picks do not depend on eating order
+function bySlot(slots: readonly number[]): number[] {
+  return slots.slice().sort((a, b) => a - b);
+}
+
+// Pick up to n random entries (partial Fisher-Yates)
+function sample(indices: number[], n: number, random: Random): number[] {
+  const pool = indices.slice();
+  const count = Math.min(n, pool.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+const noRegrowth: RegrowthModel = {
+  id: 'none',
+  label: 'None',
+  description: 'Eaten food is gone for good.',
+  regrow: () => [],
+};
+
+const respawnRegrowth: RegrowthModel = {
+  id: 'respawn',
+  label: 'Respawn',
+  description: 'Each eaten item reappears at the same spot after a fixed delay.',
+  regrow: (foodItems, { time, params, consumed }) => {
+    // Eaten in order and restored oldest first, so the first item still waiting ends the search
+    const ready: number[] = [];
+    for (const i of consumed) {
+      if (time - (foodItems[i].consumedAt ?? time) < params.respawnDelay) break;
+      ready.push(i);
+    }
+    return bySlot(ready);
+  },
+};
+
+// dN/dt = r N (1 - N/K) per patch, with K the patch's original size. Items without
+// a patch share one pool. A patch eaten bare stays bare, as in the textbook model.
+const logisticRegrowth: RegrowthModel = {
+  id: 'logistic',
+  label: 'Logistic',
+  description: 'Per-patch logistic regrowth towards each patch\'s original size.',
+  regrow: (foodItems, { delta, random, params, consumed, patchSizes }, state) => {
+    const eaten = new Map<number, number[]>();
+    bySlot(consumed).forEach(i => {
+      const key = foodItems[i].patchId ?? -1;
+      const slots = eaten.get(key);
+      if (slots) slots.push(i);
+      else eaten.set(key, [i]);
+    });
+    const restored: number[] = [];
+    // A patch with nothing eaten is at capacity and does not grow
+    patchSizes.forEach((capacity, key) => {
+      const patch = eaten.get(key);
+      if (!patch) return;
+      const available = capacity - patch.length;
+      const growth = params.growthRate * available * (1 - available / capacity) * delta;
+      // Carry fractional growth between ticks so slow rates still add up
+      const accumulated = (state[key] ?? 0) + growth;
+      const whole = Math.floor(accumulated);
+      state[key] = accumulated - whole;
+      if (whole > 0) restored.push(...sample(patch, whole, random));
+    });
+    return restored;
+  },
+};
+
+const seasonalRegrowth: RegrowthModel = {
+  id: 'seasonal',
+  label: 'Seasonal Pulses',
+  description: 'Every season a share of the eaten food comes back at once.',
+  regrow: (_foodItems, { time, random, params, consumed }, state) => {
+    const season = Math.floor(time / params.pulsePeriod);
+    if (season <= (state.season ?? 0)) return [];
+    state.season = season;
+    return sample(bySlot(consumed), Math.round(consumed.length * params.pulseFraction), random);
+  },
+};
+
+// --- Registry ---
+const regrowthRegistry = new Map<string, RegrowthModel>();
+
+export function registerRegrowthModel(model: RegrowthModel) {
+  regrowthRegistry.set(model.id, model);
+}
+
+[noRegrowth, respawnRegrowth, logisticRegrowth, seasonalRegrowth].forEach(registerRegrowthModel);
+
+export const DEFAULT_REGROWTH_ID = noRegrowth.id;
+
+export function getRegrowthModel(id: string | undefined): RegrowthModel {
+  return (id !== undefined && regrowthRegistry.get(id)) || noRegrowth;
+}
+
+export function listRegrowthModels(): RegrowthModel[] {
+  return Array.from(regrowthRegistry.values());
+}
@@ -0,0 +1,259 @@
+import * as THREE from 'three';
+import type { FoodItem, Player } from './buffetplayers';
+import type { Predator } from './buffetpredators';
+import type { FoodType } from './buffetfood';
+import { FOOD_TYPES } from './buffetfood';
+import { PLAYER_COLORS, type SimulationConfig } from './buffetengine';
+import { getForagingStrategy } from './buffetstrategies';
+
+// Race replays. The engine records the world after every tick: players and
+// predators as flat number arrays, food as its starting layout plus a list of
+// eaten/regrown events. A replay is plain JSON, so it can be saved and loaded.
+// Past MAX_REPLAY_FRAMES the recorder keeps every other frame and records half
+// as often, so long races stay bounded in memory at a coarser frame rate.
+
+const PLAYER_STRIDE = 9; // x, y, z, qx, qy, qz, qw, score, status
+const STATUS_CODES: Record<string, number> = { alive: 0, starvation: 1, predation: 2 };
+const PREDATOR_STRIDE = 7; // x, y, z, qx, qy, qz, qw
+const PRECISION = 1000; // recorded values are rounded to 3 decimals to keep files small
+export const MAX_REPLAY_FRAMES = 20000; // about 10 MB with 8 players
+
+export interface ReplayFood {
+  id: number;
+  x: number;
+  z: number;
+  type: FoodType;
+  color: string;
+}
+
+export interface ReplayFoodEvent {
+  time: number;
+  foodId: number;
+  consumed: boolean; // false when the item regrew
+}
+
+export interface ReplayFrame {
+  time: number;
+  players: number[]; // PLAYER_STRIDE values per player
+  predators: number[]; // PREDATOR_STRIDE values per predator
+}
+
+export interface Replay {
+  version: 1;
+  config: SimulationConfig;
+  food: ReplayFood[];
+  foodEvents: ReplayFoodEvent[];
+  frames: ReplayFrame[];
+}
+
+function round(value: number): number {
+  return Math.round(value * PRECISION) / PRECISION;
+}
+
+export class ReplayRecorder {
+  private food: ReplayFood[];
+  private foodEvents: ReplayFoodEvent[] = [];
+  private frames: ReplayFrame[] = [];
+  private frameInterval = 1; // record every nth call; doubles each time the cap is reached
+  private calls = 0;
+
+  constructor(foodItems: FoodItem[]) {
+    this.food = foodItems.map(item => ({
+      id: item.id,
+      x: round(item.position.x),
+      z: round(item.position.z),
+      type: item.type,
+      color: item.color,
+    }));
+  }
+
+  // `last` records the frame whatever the interval, for the tick the race ends on
+  recordFrame(time: number, players: Player[], predators: Predator[], last = false) {
+    if (this.calls++ % this.frameInterval !== 0 && !last) return;
+    const playerValues: number[] = [];
+    for (const p of players) {
+      playerValues.push(
+        round(p.position.x), round(p.position.y), round(p.position.z),
+        round(p.quaternion.x), round(p.quaternion.y), round(p.quaternion.z), round(p.quaternion.w),
+        p.score, STATUS_CODES[p.alive === false ? p.causeOfDeath ?? 'starvation' : 'alive']
+      );
+    }
+    const predatorValues: number[] = [];
+    for (const p of predators) {
+      predatorValues.push(
+        round(p.position.x), round(p.position.y), round(p.position.z),
+        round(p.quaternion.x), round(p.quaternion.y), round(p.quaternion.z), round(p.quaternion.w)
+      );
+    }
+    this.frames.push({ time: round(time), players: playerValues, predators: predatorValues });
+    if (this.frames.length > MAX_REPLAY_FRAMES) {
+      this.frameInterval *= 2;
+      this.frames = this.frames.filter((_, i, all) => i % 2 === 0 || (last && i === all.length - 1));
+    }
+  }
+
+  recordFood(time: number, foodId: number, consumed: boolean) {
+    this.foodEvents.push({ time: round(time), foodId, consumed });
+  }
+
+  toReplay(config: SimulationConfig): Replay {
+    return {
+      version: 1,
+      config,
+      food: this.food,
+      foodEvents: this.foodEvents.slice(),
+      frames: this.frames.slice(),
+    };
+  }
+}
+
+function isNumberArray(value: unknown, stride: number): value is number[] {
+  return Array.isArray(value) && value.length % stride === 0 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+export function parseReplay(json: unknown): Replay {
+  if (typeof json !== 'object' || json === null) throw new Error('Replay must be a JSON object');
+  const replay = json as Replay;
+  if (replay.version !== 1) throw new Error('Unsupported replay version');
+  const config = replay.config;
+  if (typeof config !== 'object' || config === null ||
+      !Number.isInteger(config.playerCount) || config.playerCount < 1 || config.playerCount > PLAYER_COLORS.length ||
+      typeof config.mapSize !== 'number' || typeof config.seed !== 'number') {
+    throw new Error(`"config" must give playerCount (1-${PLAYER_COLORS.length}), mapSize and seed`);
+  }
+  // Playback reads the strategy and colour of each player from the config
+  if (config.playerStrategies !== undefined && (!Array.isArray(config.playerStrategies) ||
+      !config.playerStrategies.every(id => typeof id === 'string' && getForagingStrategy(id).id === id))) {
+    throw new Error('"config.playerStrategies" must list known strategy ids');
+  }
+  if (config.playerColors !== undefined && (!Array.isArray(config.playerColors) ||
+      !config.playerColors.every(color => color === null || typeof color === 'string'))) {
+    throw new Error('"config.playerColors" must list colours or null');
+  }
+  if (!Array.isArray(replay.food) || !replay.food.every(f =>
+    typeof f === 'object' && f !== null && Number.isInteger(f.id) && typeof f.x === 'number' && typeof f.z === 'number' &&
+    FOOD_TYPES.includes(f.type) && typeof f.color === 'string')) {
+    throw new Error('"food" must list items with id, x, z, type and color');
+  }
+  if (!Array.isArray(replay.foodEvents) || !replay.foodEvents.every(e =>
+    typeof e === 'object' && e !== null && typeof e.time === 'number' && Number.isInteger(e.foodId) && typeof e.consumed === 'boolean')) {
+    throw new Error('"foodEvents" must list events with time, foodId and consumed');
+  }
+  if (!Array.isArray(replay.frames) || replay.frames.length === 0 || !replay.frames.every(f =>
+    typeof f === 'object' && f !== null && typeof f.time === 'number' &&
+    isNumberArray(f.players, PLAYER_STRIDE) && f.players.length === config.playerCount * PLAYER_STRIDE &&
+    isNumberArray(f.predators, PREDATOR_STRIDE))) {
+    throw new Error(`"frames" must hold at least one frame with ${PLAYER_STRIDE} values per player`);
+  }
+  return replay;
+}
+
+// Rebuilds the world at any recorded instant. Food state is kept incrementally,
+// so playing forward only applies the events since the last call.
+export class ReplayPlayback {
+  readonly replay: Replay;
+  private foodItems: FoodItem[];
+  private foodById: Map<number, number>; // food id -> index in foodItems
+  private eventCursor = 0; // events before this index are applied
+  private foodLeft: number;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.foodById = new Map(replay.food.map((food, i) => [food.id, i]));
+    this.foodItems = this.initialFood();
+    this.foodLeft = this.foodItems.length;
+  }
+
+  get duration(): number {
+    return this.replay.frames[this.replay.frames.length - 1].time;
+  }
+
+  private initialFood(): FoodItem[] {
+    return this.replay.food.map(food => ({
+      id: food.id,
+      position: new THREE.Vector3(food.x, 0.5, food.z),
+      type: food.type,
+      consumed: false,
+      color: food.color,
+    }));
+  }
+
+  // Index of the last frame at or before `time`
+  frameIndex(time: number): number {
+    const { frames } = this.replay;
+    let lo = 0;
+    let hi = frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (frames[mid].time <= time) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  playersAt(index: number): Player[] {
+    const values = this.replay.frames[index].players;
+    const players: Player[] = [];
+    for (let i = 0; i * PLAYER_STRIDE < values.length; i++) {
+      const o = i * PLAYER_STRIDE;
+      players.push({
+        id: i,
+        position: new THREE.Vector3(values[o], values[o + 1], values[o + 2]),
+        quaternion: new THREE.Quaternion(values[o + 3], values[o + 4], values[o + 5], values[o + 6]),
+        velocity: new THREE.Vector3(),
+        score: values[o + 7],
+        alive: values[o + 8] === STATUS_CODES.alive,
+        causeOfDeath: values[o + 8] === STATUS_CODES.predation ? 'predation' : values[o + 8] === STATUS_CODES.starvation ? 'starvation' : undefined,
+        color: this.replay.config.playerColors?.[i] ?? PLAYER_COLORS[i % PLAYER_COLORS.length],
+        strategyId: this.replay.config.playerStrategies?.[i],
+      });
+    }
+    return players;
+  }
+
+  predatorsAt(index: number): Predator[] {
+    const values = this.replay.frames[index].predators;
+    return Array.from({ length: values.length / PREDATOR_STRIDE }, (_, id) => {
+      const o = id * PREDATOR_STRIDE;
+      return {
+        id,
+        position: new THREE.Vector3(values[o], values[o + 1], values[o + 2]),
+        quaternion: new THREE.Quaternion(values[o + 3], values[o + 4], values[o + 5], values[o + 6]),
+        velocity: new THREE.Vector3(),
+        heading: 0,
+        targetId: null,
+        restUntil: 0,
+        kills: 0,
+      };
+    });
+  }
+
+  // Food at `time`; returns the same array while nothing changes
+  foodAt(time: number): FoodItem[] {
+    const { foodEvents } = this.replay;
+    if (this.eventCursor > 0 && foodEvents[this.eventCursor - 1].time > time) {
+      // Scrubbed backwards: start over from the initial layout
+      this.foodItems = this.initialFood();
+      this.foodLeft = this.foodItems.length;
+      this.eventCursor = 0;
+    }
+    let changed = false;
+    while (this.eventCursor < foodEvents.length && foodEvents[this.eventCursor].time <= time) {
+      const event = foodEvents[this.eventCursor++];
+      const index = this.foodById.get(event.foodId);
+      if (index === undefined || this.foodItems[index].consumed === event.consumed) continue;
+      if (!changed) {
+        this.foodItems = this.foodItems.slice();
+        changed = true;
+      }
+      this.foodItems[index] = { ...this.foodItems[index], consumed: event.consumed };
+      this.foodLeft += event.consumed ? -1 : 1;
+    }
+    return this.foodItems;
+  }
+
+  foodLeftAt(time: number): number {
+    this.foodAt(time);
+    return this.foodLeft;
+  }
+}
@@ -0,0 +1,81 @@
+import type { SimulationEngine } from './buffetengine';
+import type { Player } from './buffetplayers';
+import type { StrategyId } from './buffetstrategies';
+import type { RaceEnd } from './buffetend';
+import { gini } from './buffetanalytics';
+
+// Final results of a race: players ranked by score with per-player statistics and
+// a coarse path for mini-maps. Plain JSON, so results can be kept in the run history.
+
+export interface PlayerResult {
+  id: number;
+  rank: number; // 1 is best; equal scores share a rank
+  strategy: StrategyId | null;
+  color: string;
+  score: number;
+  itemsEaten: number;
+  distance: number; // ground distance travelled
+  jumps: number;
+  idleTime: number; // seconds alive and standing still
+  meanCaptureInterval: number | null; // mean seconds per item, counting the wait for the first from the start; null with no items
+  causeOfDeath: Player['causeOfDeath'] | null; // null while alive
+  path: [number, number][]; // x, z; empty without telemetry
+}
+
+export interface RaceResult {
+  seed: number;
+  duration: number; // simulated seconds
+  mapSize: number;
+  end: RaceEnd | null;
+  foodEaten: number; // fraction of the starting food eaten
+  gini: number; // inequality of final scores
+  players: PlayerResult[]; // best first
+}
+
+const PATH_POINTS = 150; // per player, enough for a mini-map and small enough to store
+
+// The race start counts as the first gap's opening, so slow starters are not flattered
+export function meanInterval(times: number[]): number | null {
+  return times.length === 0 ? null : times[times.length - 1] / times.length;
+}
+
+// Every player's positions from the telemetry, thinned to about PATH_POINTS
+function playerPaths(engine: SimulationEngine): [number, number][][] {
+  const full: [number, number][][] = engine.players.map(() => []);
+  engine.telemetry?.samples.forEach(sample => {
+    full[sample.playerId]?.push([sample.x, sample.z]);
+  });
+  return full.map(points => {
+    const stride = Math.max(1, Math.ceil(points.length / PATH_POINTS));
+    const thinned = points.filter((_, i) => i % stride === 0 || i === points.length - 1);
+    return thinned.map(([x, z]) => [Math.round(x * 10) / 10, Math.round(z * 10) / 10]);
+  });
+}
+
+export function raceResult(engine: SimulationEngine): RaceResult {
+  const paths = playerPaths(engine);
+  const players = engine.players.map((p, i): PlayerResult => ({
+    id: p.id,
+    rank: 1 + engine.players.filter(other => other.score > p.score).length,
+    strategy: p.strategyId ?? null,
+    color: p.color,
+    score: p.score,
+    itemsEaten: engine.itemsEaten[i] ?? 0,
+    distance: p.distanceTravelled ?? 0,
+    jumps: engine.jumps[i] ?? 0,
+    idleTime: engine.idleTime[i] ?? 0,
+    meanCaptureInterval: meanInterval(engine.captureTimes[i] ?? []),
+    causeOfDeath: p.alive === false ? p.causeOfDeath ?? 'starvation' : null,
+    path: paths[i],
+  }));
+  players.sort((a, b) => a.rank - b.rank || b.itemsEaten - a.itemsEaten || a.id - b.id);
+  return {
+    seed: engine.config.seed,
+    duration: engine.time,
+    mapSize: engine.config.mapSize,
+    end: engine.end,
+    foodEaten: engine.startingFood > 0 ? (engine.startingFood - engine.foodLeft) / engine.startingFood : 0,
+    gini: gini(engine.players.map(p => p.score)),
+    players,
+  };
+}
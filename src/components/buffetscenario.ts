@@ -0,0 +1,268 @@
+import { DEFAULT_DISTRIBUTION_PARAMS, FOOD_TYPES, MAX_FOOD_ITEMS, getFoodDistribution, parseFoodLayout, type FoodDistributionSettings, type FoodType } from './buffetfood';
+import { DEFAULT_REGROWTH_PARAMS, getRegrowthModel, type RegrowthSettings } from './buffetregrowth';
+import { getForagingStrategy, type StrategyId } from './buffetstrategies';
+import { DEFAULT_SOCIAL_SETTINGS, type SocialSettings } from './buffetsocial';
+import { DEFAULT_ENERGY_SETTINGS, type EnergySettings } from './buffetenergy';
+import type { FoodValue } from './buffetdiet';
+import { DEFAULT_PERCEPTION_SETTINGS, type PerceptionSettings } from './buffetperception';
+import { DEFAULT_PREDATION_SETTINGS, type PredationSettings } from './buffetpredators';
+import { DEFAULT_EVOLUTION_SETTINGS, type EvolutionSettings } from './buffetevolution';
+import { DEFAULT_PHYSICS_SETTINGS, type PhysicsSettings } from './buffetplayers';
+import { MAX_SEED } from './buffetrandom';
+import { DEFAULT_END_SETTINGS, type EndSettings } from './buffetend';
+
+// Scenario files: a complete, shareable race setup as versioned JSON. Settings
+// groups are partial, like in the UI, so a scenario only lists what it changes.
+
+// Version 2 replaced endCondition with end settings; version 1 files still load
+export const SCENARIO_VERSION = 2;
+export const MAX_PLAYERS = 8;
+export const DEFAULT_MAP_SIZE = 40;
+
+export interface AgentSpec {
+  strategy: StrategyId;
+  color?: string; // CSS colour; defaults to the palette colour for the slot
+  perception?: Partial<PerceptionSettings>; // on top of the scenario-wide perception
+}
+
+export interface Scenario {
+  version: typeof SCENARIO_VERSION;
+  name?: string;
+  seed: number;
+  minutes: number; // time limit
+  end?: Partial<EndSettings>;
+  map: {
+    size: number; // arena spans -size..size in x and z
+    physics?: Partial<PhysicsSettings>;
+  };
+  food: {
+    amount: number;
+    distribution: FoodDistributionSettings; // params.layout holds a hand-authored layout
+    regrowth: RegrowthSettings;
+    values?: Partial<Record<FoodType, Partial<FoodValue>>>;
+  };
+  agents: AgentSpec[]; // one per player
+  social?: Partial<SocialSettings>;
+  energy?: Partial<EnergySettings>;
+  perception?: Partial<PerceptionSettings>;
+  predation?: Partial<PredationSettings>;
+  evolution?: Partial<EvolutionSettings>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(value: unknown, path: string, min: number, max: number, integer = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new Error(`${path} must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+  }
+  return value;
+}
+
+// Allowed [min, max, whole number?] per numeric setting, mirroring the UI inputs.
+// The engine divides by or waits on several of these, so out-of-range values
+// would stall or break a race rather than just look odd.
+type Range = readonly [number, number, boolean?];
+interface Limits {
+  [key: string]: Range | Limits;
+}
+
+const PHYSICS_LIMITS: Limits = { gravity: [-100, -1], jumpVelocity: [0, 50] };
+const DISTRIBUTION_LIMITS: Limits = {
+  patchCount: [1, 50, true], patchSpread: [0.5, 20], patchRichness: [0, 1000], background: [0, 1], minDistance: [0, 20], ringCount: [1, 10, true],
+};
+const REGROWTH_LIMITS: Limits = { respawnDelay: [1, 600], growthRate: [0.01, 5], pulsePeriod: [1, 600], pulseFraction: [0.05, 1] };
+const FOOD_VALUE_LIMITS: Limits = { value: [0, 100], handlingTime: [0, 30] };
+const SOCIAL_LIMITS: Limits = {
+  scroungerFraction: [0, 1], stealProbability: [0, 1], watchRadius: [0, 500], kleptoRadius: [0, 50], revisionInterval: [1, 600],
+};
+const ENERGY_LIMITS: Limits = {
+  initialEnergy: [0, 1000], basalCost: [0, 1000], movementCost: [0, 1000], jumpCost: [0, 1000],
+  foodEnergy: { cube: [0, 1000], sphere: [0, 1000], triangle: [0, 1000] },
+};
+const PERCEPTION_LIMITS: Limits = { radius: [1, 100], fieldOfView: [10, 360], memoryDuration: [0, 600] };
+const PREDATION_LIMITS: Limits = {
+  count: [0, 8, true], speed: [0.5, 10], huntRadius: [0, 500], attackRadius: [0, 50], captureProbability: [0, 1],
+  restTime: [0, 600], scanInterval: [0.5, 60], scanDuration: [0, 60], alertRadius: [0, 500], scanRadius: [0, 500],
+  fleeDuration: [0, 600], dilutionRadius: [0, 500],
+};
+const EVOLUTION_LIMITS: Limits = { mutationRate: [0, 1], initialSpread: [0, 1] };
+
+function isRange(limit: Range | Limits | undefined): limit is Range {
+  return Array.isArray(limit);
+}
+
+function checkRange(value: number, path: string, limit: Range | Limits | undefined) {
+  if (isRange(limit)) checkNumber(value, path, limit[0], limit[1], limit[2]);
+}
+
+// A partial settings object may only use the keys of its defaults, with the same
+// value types and within `limits`; nested groups (e.g. energy per food type) are
+// checked the same way
+function checkPartial<T extends object>(value: unknown, defaults: T, path: string, limits: Limits = {}): Partial<T> {
+  if (!isObject(value)) throw new Error(`${path} must be an object`);
+  Object.entries(value).forEach(([key, v]) => {
+    const expected = (defaults as Record<string, unknown>)[key];
+    const keyPath = `${path}.${key}`;
+    const limit = limits[key];
+    if (expected === undefined) throw new Error(`${keyPath} is not a known setting`);
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(v) || !v.every(item => typeof item === typeof expected[0])) throw new Error(`${keyPath} must be an array of ${typeof expected[0]}s`);
+      v.forEach((item, i) => checkRange(item, `${keyPath}[${i}]`, limit));
+    } else if (isObject(expected)) {
+      checkPartial(v, expected, keyPath, isRange(limit) ? {} : limit);
+    } else if (typeof v !== typeof expected || (typeof v === 'number' && !Number.isFinite(v))) {
+      throw new Error(`${keyPath} must be a ${typeof expected}`);
+    } else if (typeof v === 'number') {
+      checkRange(v, keyPath, limit);
+    }
+  });
+  return value as Partial<T>;
+}
+
+function checkOptional<T extends object>(value: unknown, defaults: T, path: string, limits?: Limits): Partial<T> | undefined {
+  return value === undefined ? undefined : checkPartial(value, defaults, path, limits);
+}
+
+function parseEnd(json: Record<string, unknown>): Partial<EndSettings> | undefined {
+  if (json.endCondition !== undefined) throw new Error(`endCondition was replaced by end in version ${SCENARIO_VERSION}`);
+  const end = checkOptional(json.end, DEFAULT_END_SETTINGS, 'end');
+  if (end?.combine !== undefined && end.combine !== 'any' && end.combine !== 'all') throw new Error('end.combine must be "any" or "all"');
+  if (end?.foodEaten !== undefined) checkNumber(end.foodEaten, 'end.foodEaten', 0, 1);
+  if (end?.firstTo !== undefined) checkNumber(end.firstTo, 'end.firstTo', 0, MAX_FOOD_ITEMS, true);
+  return end;
+}
+
+// Version 1 said "depletion" (food runs out or time is up) or "timer" (time is up
+// only) in endCondition; links shared just before the bump may already carry end
+function migrateVersion1(json: Record<string, unknown>): Record<string, unknown> {
+  const { endCondition, ...rest } = json;
+  if (endCondition === undefined) return { ...rest, version: 2 };
+  if (endCondition !== 'depletion' && endCondition !== 'timer') throw new Error('endCondition must be "depletion" or "timer"');
+  return { ...rest, version: 2, end: endCondition === 'timer' ? { foodEaten: 0 } : {} };
+}
+
+function parseLayout(layout: unknown) {
+  try {
+    return parseFoodLayout(layout);
+  } catch (err) {
+    throw new Error(`food.distribution.params.layout: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Validate parsed JSON; throws with the path of the first problem
+export function parseScenario(input: unknown): Scenario {
+  if (!isObject(input)) throw new Error('Scenario must be a JSON object');
+  const json = input.version === 1 ? migrateVersion1(input) : input;
+  if (json.version !== SCENARIO_VERSION) throw new Error(`Unsupported scenario version (expected 1 to ${SCENARIO_VERSION})`);
+  if (json.name !== undefined && typeof json.name !== 'string') throw new Error('name must be a string');
+  const seed = checkNumber(json.seed, 'seed', 0, MAX_SEED, true);
+  const minutes = checkNumber(json.minutes, 'minutes', 1, 720, true);
+  const end = parseEnd(json);
+
+  if (!isObject(json.map)) throw new Error('map must be an object');
+  const map = {
+    size: checkNumber(json.map.size, 'map.size', 5, 500),
+    physics: checkOptional(json.map.physics, DEFAULT_PHYSICS_SETTINGS, 'map.physics', PHYSICS_LIMITS),
+  };
+
+  if (!isObject(json.food)) throw new Error('food must be an object');
+  const { distribution, regrowth, values } = json.food;
+  if (!isObject(distribution) || typeof distribution.id !== 'string' || getFoodDistribution(distribution.id).id !== distribution.id) {
+    throw new Error('food.distribution.id must name a food distribution');
+  }
+  let distributionParams: FoodDistributionSettings['params'];
+  if (distribution.params !== undefined) {
+    if (!isObject(distribution.params)) throw new Error('food.distribution.params must be an object');
+    const { layout, ...params } = distribution.params;
+    distributionParams = {
+      ...checkPartial(params, DEFAULT_DISTRIBUTION_PARAMS, 'food.distribution.params', DISTRIBUTION_LIMITS),
+      ...(layout !== undefined && { layout: parseLayout(layout) }),
+    };
+  }
+  if (distribution.id === 'layout' && !distributionParams?.layout) throw new Error('food.distribution.params.layout is required for the layout distribution');
+  if (!isObject(regrowth) || typeof regrowth.id !== 'string' || getRegrowthModel(regrowth.id).id !== regrowth.id) {
+    throw new Error('food.regrowth.id must name a regrowth model');
+  }
+  if (values !== undefined) {
+    if (!isObject(values)) throw new Error('food.values must be an object');
+    Object.entries(values).forEach(([type, value]) => {
+      if (!FOOD_TYPES.includes(type as FoodType)) throw new Error(`food.values.${type} is not a food type`);
+      checkPartial(value, { value: 1, handlingTime: 0 }, `food.values.${type}`, FOOD_VALUE_LIMITS);
+    });
+  }
+  const food: Scenario['food'] = {
+    amount: checkNumber(json.food.amount, 'food.amount', 1, MAX_FOOD_ITEMS, true),
+    distribution: { id: distribution.id, ...(distributionParams && { params: distributionParams }) },
+    regrowth: {
+      id: regrowth.id,
+      ...(regrowth.params !== undefined && { params: checkPartial(regrowth.params, DEFAULT_REGROWTH_PARAMS, 'food.regrowth.params', REGROWTH_LIMITS) }),
+    },
+    values: values as Scenario['food']['values'],
+  };
+
+  if (!Array.isArray(json.agents) || json.agents.length < 1 || json.agents.length > MAX_PLAYERS) {
+    throw new Error(`agents must list 1 to ${MAX_PLAYERS} players`);
+  }
+  const agents = json.agents.map((agent: unknown, i: number): AgentSpec => {
+    const path = `agents[${i}]`;
+    if (!isObject(agent) || typeof agent.strategy !== 'string') throw new Error(`${path}.strategy must be a strategy id`);
+    if (getForagingStrategy(agent.strategy).id !== agent.strategy) throw new Error(`${path}.strategy "${agent.strategy}" is not a known strategy`);
+    if (agent.color !== undefined && typeof agent.color !== 'string') throw new Error(`${path}.color must be a CSS colour string`);
+    return {
+      strategy: agent.strategy,
+      ...(agent.color !== undefined && { color: agent.color as string }),
+      ...(agent.perception !== undefined && { perception: checkPartial(agent.perception, DEFAULT_PERCEPTION_SETTINGS, `${path}.perception`, PERCEPTION_LIMITS) }),
+    };
+  });
+
+  return {
+    version: SCENARIO_VERSION,
+    ...(json.name !== undefined && { name: json.name as string }),
+    seed,
+    minutes,
+    end,
+    map,
+    food,
+    agents,
+    social: checkOptional(json.social, DEFAULT_SOCIAL_SETTINGS, 'social', SOCIAL_LIMITS),
+    energy: checkOptional(json.energy, DEFAULT_ENERGY_SETTINGS, 'energy', ENERGY_LIMITS),
+    perception: checkOptional(json.perception, DEFAULT_PERCEPTION_SETTINGS, 'perception', PERCEPTION_LIMITS),
+    predation: checkOptional(json.predation, DEFAULT_PREDATION_SETTINGS, 'predation', PREDATION_LIMITS),
+    evolution: checkOptional(json.evolution, DEFAULT_EVOLUTION_SETTINGS, 'evolution', EVOLUTION_LIMITS),
+  };
+}
+
+// --- Shareable links ---
+// The scenario rides in the URL hash as base64url-encoded JSON, so a link
+// reproduces the same setup without a server.
+
+const HASH_PREFIX = '#s=';
+export const MAX_HASH_LENGTH = 4000; // characters; longer links break in address bars and chat apps
+
+// null when the scenario is too big for a link: a hand-authored food layout, or
+// anything else past MAX_HASH_LENGTH. Those are shared as scenario files.
+export function encodeScenarioHash(scenario: Scenario): string | null {
+  if (scenario.food.distribution.params?.layout) return null;
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  const hash = HASH_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return hash.length <= MAX_HASH_LENGTH ? hash : null;
+}
+
+// null when the hash carries no scenario; throws when it carries a broken one
+export function decodeScenarioHash(hash: string): Scenario | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  let json: unknown;
+  try {
+    const binary = atob(hash.slice(HASH_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+    json = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+  } catch {
+    throw new Error('The link does not hold a readable scenario');
+  }
+  return parseScenario(json);
+}
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import type { Player } from './buffetplayers';
+import type { Random } from './buffetrandom';
+import { getForagingStrategy, type ForagingStrategy, type StrategyId } from './buffetstrategies';
+import { isAlive } from './buffetenergy';
+
+// Producer-scrounger social foraging. Producers search with their own strategy;
+// scroungers watch nearby producers, run to what they find, and may steal items
+// a producer is about to eat (kleptoparasitism).
+
+export type ForagerRole = 'producer' | 'scrounger';
+
+export interface SocialSettings {
+  scroungerFraction: number; // share of players starting as scroungers, 0..1
+  evolve: boolean; // let players switch role by comparing payoffs
+  stealProbability: number; // chance a scrounger in reach steals a producer's item
+  watchRadius: number; // how far scroungers can see a producer's capture
+  kleptoRadius: number; // how close a scrounger must be to steal
+  revisionInterval: number; // seconds between role revisions when evolving
+}
+
+export const DEFAULT_SOCIAL_SETTINGS: SocialSettings = {
+  scroungerFraction: 0,
+  evolve: false,
+  stealProbability: 0.3,
+  watchRadius: 25,
+  kleptoRadius: 2.5,
+  revisionInterval: 10,
+};
+
+const JOIN_WINDOW = 3; // seconds a producer's capture stays interesting to scroungers
+const JOIN_RADIUS = 4; // once this close to the discovery, scroungers eat greedily
+const FOLLOW_DISTANCE = 2; // how close scroungers shadow a producer between discoveries
+
+// The last round(n * fraction) players start as scroungers, skipping person-steered ones
+export function assignRoles(
+  playerCount: number,
+  scroungerFraction: number,
+  strategyIds: readonly (StrategyId | undefined)[] = []
+): ForagerRole[] {
+  let scroungers = Math.round(playerCount * Math.max(0, Math.min(1, scroungerFraction)));
+  const roles: ForagerRole[] = Array.from({ length: playerCount }, () => 'producer');
+  for (let i = playerCount - 1; i >= 0 && scroungers > 0; i--) {
+    if (getForagingStrategy(strategyIds[i]).manual) continue;
+    roles[i] = 'scrounger';
+    scroungers--;
+  }
+  return roles;
+}
+
+// Scroungers do not search; they exploit producers' discoveries. The engine clears
+// a player's state when its role changes, so each role builds its own.
+export const scroungerStrategy: ForagingStrategy = {
+  id: 'scrounger',
+  label: 'Scrounger',
+  description: 'Joins food discovered by nearby producers instead of searching.',
+  decide: (player, context) => {
+    const state = player.strategyState!;
+    const watchRadiusSq = context.social.watchRadius ** 2;
+    // Latch on to the freshest discovery by a producer within sight
+    let freshest: Player | null = null;
+    for (const other of context.players) {
+      if (other === player || other.role === 'scrounger' || !isAlive(other) || other.lastCaptureAt === undefined) continue;
+      if (context.time - other.lastCaptureAt > JOIN_WINDOW) continue;
+      if (player.position.distanceToSquared(other.position) > watchRadiusSq) continue;
+      if (!freshest || other.lastCaptureAt > freshest.lastCaptureAt!) freshest = other;
+    }
+    if (freshest) {
+      state.joinX = freshest.position.x;
+      state.joinZ = freshest.position.z;
+      state.joinUntil = context.time + JOIN_WINDOW;
+    }
+    if ((state.joinUntil ?? -Infinity) >= context.time) {
+      const discovery = new THREE.Vector3(state.joinX, player.position.y, state.joinZ);
+      if (player.position.distanceToSquared(discovery) <= JOIN_RADIUS * JOIN_RADIUS) {
+        return { target: context.nearestFood(player.position) };
+      }
+      return { target: context.nearestFood(discovery) };
+    }
+    // Nothing to join: shadow the nearest producer
+    let nearest: Player | null = null;
+    for (const other of context.players) {
+      if (other === player || other.role === 'scrounger' || !isAlive(other)) continue;
+      if (!nearest || player.position.distanceToSquared(other.position) < player.position.distanceToSquared(nearest.position)) {
+        nearest = other;
+      }
+    }
+    if (!nearest) return { target: context.nearestFood(player.position) };
+    const toProducer = new THREE.Vector3().subVectors(nearest.position, player.position).setY(0);
+    if (toProducer.length() <= FOLLOW_DISTANCE) return { target: null };
+    return { target: null, heading: toProducer };
+  },
+};
+
+// Nearest scrounger close enough to snatch an item from `producer`, if the steal succeeds
+export function findThief(
+  producer: Player,
+  players: Player[],
+  settings: SocialSettings,
+  random: Random
+): Player | null {
+  if (producer.role === 'scrounger') return null;
+  let thief: Player | null = null;
+  let thiefDistanceSq = settings.kleptoRadius * settings.kleptoRadius;
+  for (const other of players) {
+    if (other.role !== 'scrounger' || !isAlive(other)) continue;
+    const distanceSq = other.position.distanceToSquared(producer.position);
+    if (distanceSq <= thiefDistanceSq) {
+      thief = other;
+      thiefDistanceSq = distanceSq;
+    }
+  }
+  return thief && random() < settings.stealProbability ? thief : null;
+}
+
+// Pairwise proportional imitation: each player compares its intake since the last
+// revision with a random other player's and copies a better-paid role with
+// probability proportional to the payoff gap. Returns the new roles.
+export function reviseRoles(players: Player[], payoffs: number[], random: Random): ForagerRole[] {
+  const maxGap = Math.max(1e-9, Math.max(...payoffs) - Math.min(...payoffs));
+  return players.map((player, i) => {
+    const role = player.role ?? 'producer';
+    // A person-steered player searches for itself and never switches
+    if (players.length < 2 || getForagingStrategy(player.strategyId).manual) return role;
+    let j = Math.floor(random() * (players.length - 1));
+    if (j >= i) j++;
+    const otherRole = players[j].role ?? 'producer';
+    const gap = payoffs[j] - payoffs[i];
+    if (otherRole !== role && gap > 0 && random() < gap / maxGap) return otherRole;
+    return role;
+  });
+}
@@ -0,0 +1,118 @@
+import type * as THREE from 'three';
+
+// Uniform grid over the XZ plane for nearest / k-nearest / radius queries.
+// Items are stored by reference and must not move while indexed; remove an item
+// (e.g. when food is consumed) before replacing or relocating it.
+
+interface Positioned {
+  position: THREE.Vector3;
+}
+
+export const DEFAULT_CELL_SIZE = 4;
+
+export class SpatialGrid<T extends Positioned> {
+  readonly cellSize: number;
+  readonly mapSize: number;
+  readonly cols: number;
+  private cells: T[][];
+  private count = 0;
+
+  constructor(mapSize: number, cellSize = DEFAULT_CELL_SIZE) {
+    this.mapSize = mapSize;
+    this.cellSize = cellSize;
+    this.cols = Math.max(1, Math.ceil((mapSize * 2) / cellSize));
+    this.cells = Array.from({ length: this.cols * this.cols }, () => []);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  private cellCoord(value: number): number {
+    const c = Math.floor((value + this.mapSize) / this.cellSize);
+    return Math.max(0, Math.min(this.cols - 1, c));
+  }
+
+  private cellIndex(position: THREE.Vector3): number {
+    return this.cellCoord(position.z) * this.cols + this.cellCoord(position.x);
+  }
+
+  insert(item: T) {
+    this.cells[this.cellIndex(item.position)].push(item);
+    this.count++;
+  }
+
+  remove(item: T): boolean {
+    const cell = this.cells[this.cellIndex(item.position)];
+    const i = cell.indexOf(item);
+    if (i === -1) return false;
+    cell[i] = cell[cell.length - 1];
+    cell.pop();
+    this.count--;
+    return true;
+  }
+
+  clear() {
+    this.cells.forEach(cell => { cell.length = 0; });
+    this.count = 0;
+  }
+
+  // Visit the cells at Chebyshev ring distance `ring` around (cx, cz)
+  private forEachInRing(cx: number, cz: number, ring: number, visit: (item: T) => void) {
+    for (let dz = -ring; dz <= ring; dz++) {
+      const z = cz + dz;
+      if (z < 0 || z >= this.cols) continue;
+      const onEdge = dz === -ring || dz === ring;
+      for (let dx = -ring; dx <= ring; dx += onEdge || ring === 0 ? 1 : ring * 2) {
+        const x = cx + dx;
+        if (x < 0 || x >= this.cols) continue;
+        for (const item of this.cells[z * this.cols + x]) visit(item);
+      }
+    }
+  }
+
+  nearest(position: THREE.Vector3, filter?: (item: T) => boolean): T | null {
+    return this.kNearest(position, 1, filter)[0] ?? null;
+  }
+
+  // Closest k items by 3D distance, nearest first
+  kNearest(position: THREE.Vector3, k: number, filter?: (item: T) => boolean): T[] {
+    if (k <= 0 || this.count === 0) return [];
+    const cx = this.cellCoord(position.x);
+    const cz = this.cellCoord(position.z);
+    const found: { item: T; distanceSq: number }[] = [];
+    for (let ring = 0; ring < this.cols; ring++) {
+      this.forEachInRing(cx, cz, ring, item => {
+        if (filter && !filter(item)) return;
+        const distanceSq = position.distanceToSquared(item.position);
+        if (found.length < k || distanceSq < found[found.length - 1].distanceSq) {
+          let i = found.length;
+          while (i > 0 && found[i - 1].distanceSq > distanceSq) i--;
+          found.splice(i, 0, { item, distanceSq });
+          if (found.length > k) found.pop();
+        }
+      });
+      // Anything in later rings is at least ring * cellSize away
+      const bound = ring * this.cellSize;
+      if (found.length === k && found[k - 1].distanceSq <= bound * bound) break;
+    }
+    return found.map(f => f.item);
+  }
+
+  withinRadius(position: THREE.Vector3, radius: number): T[] {
+    const result: T[] = [];
+    const radiusSq = radius * radius;
+    const minX = this.cellCoord(position.x - radius);
+    const maxX = this.cellCoord(position.x + radius);
+    const minZ = this.cellCoord(position.z - radius);
+    const maxZ = this.cellCoord(position.z + radius);
+    for (let z = minZ; z <= maxZ; z++) {
+      for (let x = minX; x <= maxX; x++) {
+        for (const item of this.cells[z * this.cols + x]) {
+          if (position.distanceToSquared(item.position) <= radiusSq) result.push(item);
+        }
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,296 @@
+import * as THREE from 'three';
+import type { Player, FoodItem } from './buffetplayers';
+import type { Random } from './buffetrandom';
+import type { SocialSettings } from './buffetsocial';
+import { FOOD_TYPES, type FoodType } from './buffetfood';
+import { optimalDiet, type FoodValues } from './buffetdiet';
+
+// Strategy IDs are plain strings so experiments can register their own strategies
+export type StrategyId = string;
+
+// Per-player strategy memory, kept flat so it is cheap to clone every frame
+export type StrategyState = Record<string, number>;
+
+// Read-only view of the world handed to a strategy each frame
+export interface ForagingContext {
+  players: Player[];
+  foodItems: FoodItem[];
+  foodLeft: number;
+  delta: number;
+  mapSize: number;
+  random: Random;
+  time: number;
+  averageGainRate: number; // mean intake rate across all players so far, score per second
+  social: SocialSettings;
+  foodValues: FoodValues;
+  foodLeftByType: () => Record<FoodType, number>; // unconsumed items per type; an estimate under limited perception
+  nearestFood: (position: THREE.Vector3, filter?: (food: FoodItem) => boolean) => FoodItem | null;
+  kNearestFood: (position: THREE.Vector3, k: number) => FoodItem[];
+  foodWithin: (position: THREE.Vector3, radius: number) => FoodItem[];
+}
+
+// What a strategy wants to do this frame. With a heading the player walks that way;
+// with only a target it walks straight at the target; with neither it stands still.
+export interface ForagingDecision {
+  target: FoodItem | null;
+  heading?: THREE.Vector3;
+  speed?: number; // fraction of the player's walking speed, 0..1; defaults to 1
+  jump?: boolean; // jump now if on the ground
+}
+
+export interface ForagingStrategy {
+  id: StrategyId;
+  label: string;
+  description: string;
+  hidden?: boolean; // registered for internal use (e.g. training) but not offered in the UI
+  manual?: boolean; // steered by a person in a live race: no automatic vigilance or role switching, no headless runs
+  createState?: (player: Player) => StrategyState;
+  decide: (player: Player, context: ForagingContext) => ForagingDecision;
+}
+
+// --- Shared tuning ---
+const DETECTION_RADIUS = 3; // how close food must be before a searcher notices it
+const RANDOM_WALK_TURN = 3; // max heading change, radians/sec
+const LEVY_MU = 2; // power-law exponent, mu = 2 is the optimal sparse-target search
+const LEVY_MIN_STEP = 1;
+const ARS_WINDOW = 4; // seconds of intensive search after a capture
+const ARS_INTENSIVE_TURN = 6;
+const ARS_EXTENSIVE_TURN = 0.8;
+const DENSITY_RADIUS = 6;
+const DENSITY_SAMPLES = 24;
+const DENSITY_RETARGET = 2; // seconds between density re-evaluations
+const MVT_MIN_RESIDENCE = 2; // seconds in a patch before the gain rate is trusted
+const MVT_LEAVE_THRESHOLD = 1; // leave when gain rate < threshold * environment average
+const SEARCH_SPEED = 2.5; // mean walking speed, for encounter-rate estimates
+
+function headingFromAngle(angle: number): THREE.Vector3 {
+  return new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle));
+}
+
+function angleFromQuaternion(quaternion: THREE.Quaternion): number {
+  // Player rotations come from Matrix4.lookAt, which points -z at the target
+  const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(quaternion);
+  return Math.atan2(forward.z, forward.x);
+}
+
+// Bounce a heading off the map walls so walkers do not grind into the boundary
+function reflectAngle(angle: number, position: THREE.Vector3, mapSize: number): number {
+  const margin = 1;
+  let x = Math.cos(angle);
+  let z = Math.sin(angle);
+  if ((position.x > mapSize - margin && x > 0) || (position.x < -mapSize + margin && x < 0)) x = -x;
+  if ((position.z > mapSize - margin && z > 0) || (position.z < -mapSize + margin && z < 0)) z = -z;
+  return Math.atan2(z, x);
+}
+
+function nearbyFood(player: Player, context: ForagingContext, radius: number): FoodItem | null {
+  const food = context.nearestFood(player.position);
+  if (food && player.position.distanceToSquared(food.position) <= radius * radius) return food;
+  return null;
+}
+
+const greedyStrategy: ForagingStrategy = {
+  id: 'greedy',
+  label: 'Greedy',
+  description: 'Always heads for the nearest food item.',
+  decide: (player, context) => ({ target: context.nearestFood(player.position) }),
+};
+
+const randomWalkStrategy: ForagingStrategy = {
+  id: 'random-walk',
+  label: 'Random Walk',
+  description: 'Correlated random walk; takes food it stumbles within detection range of.',
+  createState: player => ({ heading: angleFromQuaternion(player.quaternion) }),
+  decide: (player, context) => {
+    const target = nearbyFood(player, context, DETECTION_RADIUS);
+    if (target) return { target };
+    const state = player.strategyState!;
+    let heading = state.heading + (context.random() * 2 - 1) * RANDOM_WALK_TURN * context.delta;
+    heading = reflectAngle(heading, player.position, context.mapSize);
+    state.heading = heading;
+    return { target: null, heading: headingFromAngle(heading) };
+  },
+};
+
+const levyFlightStrategy: ForagingStrategy = {
+  id: 'levy',
+  label: 'Lévy Flight',
+  description: 'Straight flights with power-law distributed lengths and uniform turns.',
+  createState: player => ({
+    heading: angleFromQuaternion(player.quaternion),
+    remaining: 0,
+    lastX: player.position.x,
+    lastZ: player.position.z,
+  }),
+  decide: (player, context) => {
+    const state = player.strategyState!;
+    state.remaining -= Math.hypot(player.position.x - state.lastX, player.position.z - state.lastZ);
+    state.lastX = player.position.x;
+    state.lastZ = player.position.z;
+    const target = nearbyFood(player, context, DETECTION_RADIUS);
+    if (target) {
+      // Truncate the flight on detection, as in the classic Lévy search model
+      state.remaining = 0;
+      return { target };
+    }
+    if (state.remaining <= 0) {
+      state.heading = context.random() * Math.PI * 2;
+      const length = LEVY_MIN_STEP * Math.pow(1 - context.random(), -1 / (LEVY_MU - 1));
+      state.remaining = Math.min(length, context.mapSize * 2);
+    }
+    state.heading = reflectAngle(state.heading, player.position, context.mapSize);
+    return { target: null, heading: headingFromAngle(state.heading) };
+  },
+};
+
+const areaRestrictedStrategy: ForagingStrategy = {
+  id: 'area-restricted',
+  label: 'Area-Restricted',
+  description: 'Turns tightly right after a capture, then relaxes into wide-ranging search.',
+  createState: player => ({
+    heading: angleFromQuaternion(player.quaternion),
+    lastScore: player.score,
+    sinceCapture: ARS_WINDOW,
+  }),
+  decide: (player, context) => {
+    const state = player.strategyState!;
+    if (player.score > state.lastScore) {
+      state.lastScore = player.score;
+      state.sinceCapture = 0;
+    } else {
+      state.sinceCapture += context.delta;
+    }
+    const target = nearbyFood(player, context, DETECTION_RADIUS);
+    if (target) return { target };
+    const turnRate = state.sinceCapture < ARS_WINDOW ? ARS_INTENSIVE_TURN : ARS_EXTENSIVE_TURN;
+    let heading = state.heading + (context.random() * 2 - 1) * turnRate * context.delta;
+    heading = reflectAngle(heading, player.position, context.mapSize);
+    state.heading = heading;
+    return { target: null, heading: headingFromAngle(heading) };
+  },
+};
+
+const densitySeekingStrategy: ForagingStrategy = {
+  id: 'density',
+  label: 'Density-Seeking',
+  description: 'Samples the map and commits to the richest nearby cluster of food.',
+  createState: player => ({ centerX: player.position.x, centerZ: player.position.z, retarget: 0 }),
+  decide: (player, context) => {
+    const state = player.strategyState!;
+    state.retarget -= context.delta;
+    if (state.retarget <= 0 && context.foodLeft > 0) {
+      state.retarget = DENSITY_RETARGET;
+      let bestScore = -Infinity;
+      for (let i = 0; i < DENSITY_SAMPLES; i++) {
+        const sample = context.foodItems[Math.floor(context.random() * context.foodItems.length)];
+        if (!sample || sample.consumed) continue;
+        const density = context.foodWithin(sample.position, DENSITY_RADIUS).length;
+        const distance = player.position.distanceTo(sample.position);
+        const score = density / (1 + distance / (DENSITY_RADIUS * 2));
+        if (score > bestScore) {
+          bestScore = score;
+          state.centerX = sample.position.x;
+          state.centerZ = sample.position.z;
+        }
+      }
+    }
+    const center = new THREE.Vector3(state.centerX, player.position.y, state.centerZ);
+    // Once inside the chosen cluster, eat greedily; otherwise head for the cluster
+    if (player.position.distanceToSquared(center) <= DENSITY_RADIUS * DENSITY_RADIUS) {
+      return { target: context.nearestFood(player.position) };
+    }
+    return { target: context.nearestFood(center) };
+  },
+};
+
+// Charnov's marginal value theorem: exploit the current patch greedily and leave
+// once the intake rate there drops below the environment's average rate
+const mvtStrategy: ForagingStrategy = {
+  id: 'mvt',
+  label: 'MVT Patch-Leaver',
+  description: 'Leaves a patch when its intake rate falls below the average for the environment.',
+  createState: () => ({ avoidPatch: NaN }),
+  decide: (player, context) => {
+    const state = player.strategyState!;
+    const patchId = player.patchId;
+    if (patchId === undefined) {
+      // Not in a patch yet (or patches are unknown): go for the nearest food
+      return { target: context.nearestFood(player.position) };
+    }
+    if (patchId === state.avoidPatch) {
+      // Still travelling away from the patch we gave up on
+      const target = context.nearestFood(player.position, food => food.patchId !== state.avoidPatch);
+      return { target: target ?? context.nearestFood(player.position) };
+    }
+    state.avoidPatch = NaN;
+    const residence = context.time - (player.patchEnteredAt ?? context.time);
+    const inPatch = context.nearestFood(player.position, food => food.patchId === patchId);
+    const depleted = !inPatch;
+    const poor = residence >= MVT_MIN_RESIDENCE &&
+      (player.gainRate ?? 0) < context.averageGainRate * (player.genome?.leaveThreshold ?? MVT_LEAVE_THRESHOLD);
+    if (depleted || poor) {
+      state.avoidPatch = patchId;
+      const target = context.nearestFood(player.position, food => food.patchId !== patchId);
+      return { target: target ?? inPatch };
+    }
+    return { target: inPatch };
+  },
+};
+
+// The prey model: estimate encounter rates from the density of each food type,
+// work out which types are worth their handling time, and ignore the rest
+const optimalDietStrategy: ForagingStrategy = {
+  id: 'optimal-diet',
+  label: 'Optimal Diet',
+  description: 'Skips low-profitability food types while better ones are common enough.',
+  decide: (player, context) => {
+    const counts = context.foodLeftByType();
+    const area = (2 * context.mapSize) ** 2;
+    const sweep = SEARCH_SPEED * 2 * DETECTION_RADIUS; // area searched per second
+    const encounterRates = { cube: 0, sphere: 0, triangle: 0 };
+    FOOD_TYPES.forEach(type => {
+      encounterRates[type] = Number.isFinite(area) ? (counts[type] / area) * sweep : 0;
+    });
+    const diet = optimalDiet(context.foodValues, encounterRates);
+    const target = context.nearestFood(player.position, food => diet.has(food.type));
+    return { target: target ?? context.nearestFood(player.position) };
+  },
+};
+
+// Fallback for players with limited perception whose strategy has nothing in sight:
+// a correlated random walk, kept under its own state key so it never disturbs the strategy's
+export function exploreDecision(player: Player, context: ForagingContext): ForagingDecision {
+  const state = player.strategyState!;
+  let heading = state.exploreHeading ?? angleFromQuaternion(player.quaternion);
+  heading += (context.random() * 2 - 1) * RANDOM_WALK_TURN * context.delta;
+  heading = reflectAngle(heading, player.position, context.mapSize);
+  state.exploreHeading = heading;
+  return { target: null, heading: headingFromAngle(heading) };
+}
+
+// --- Registry ---
+const strategyRegistry = new Map<StrategyId, ForagingStrategy>();
+
+export function registerForagingStrategy(strategy: ForagingStrategy) {
+  strategyRegistry.set(strategy.id, strategy);
+}
+
+[
+  greedyStrategy,
+  randomWalkStrategy,
+  levyFlightStrategy,
+  areaRestrictedStrategy,
+  densitySeekingStrategy,
+  mvtStrategy,
+  optimalDietStrategy,
+].forEach(registerForagingStrategy);
+
+export const DEFAULT_STRATEGY_ID: StrategyId = greedyStrategy.id;
+
+export function getForagingStrategy(id: StrategyId | undefined): ForagingStrategy {
+  return (id !== undefined && strategyRegistry.get(id)) || greedyStrategy;
+}
+
+export function listForagingStrategies(): ForagingStrategy[] {
+  return Array.from(strategyRegistry.values()).filter(strategy => !strategy.hidden);
+}
@@ -0,0 +1,111 @@
+import type { ConsumptionEvent, Player } from './buffetplayers';
+import type { SimulationConfig } from './buffetengine';
+
+// Race telemetry: one sample per player per tick plus every item eaten, for
+// analysis outside the app (R, Python, spreadsheets). Memory is bounded: past
+// maxSamples the recorder halves its resolution, so long races keep an even
+// record from start to end at a coarser step.
+
+export interface PlayerSample {
+  tick: number;
+  time: number;
+  playerId: number;
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  targetFoodId: number | null; // null when the player was not steering towards an item
+  score: number;
+  alive: boolean;
+}
+
+export const PLAYER_SAMPLE_COLUMNS: (keyof PlayerSample)[] = [
+  'tick', 'time', 'playerId', 'x', 'y', 'z', 'vx', 'vy', 'vz', 'targetFoodId', 'score', 'alive',
+];
+
+export const CONSUMPTION_COLUMNS: (keyof ConsumptionEvent)[] = [
+  'time', 'playerId', 'foodId', 'foodType', 'x', 'z', 'value',
+];
+
+export const MAX_TELEMETRY_SAMPLES = 100000; // player samples kept; about 15 MB
+export const MAX_TELEMETRY_CONSUMPTIONS = 100000;
+
+export class TelemetryRecorder {
+  samples: PlayerSample[] = [];
+  consumptions: ConsumptionEvent[] = [];
+  sampleInterval = 1; // ticks between recorded samples; doubles each time the cap is reached
+  droppedConsumptions = 0; // items eaten after the consumption cap was reached
+  readonly maxSamples: number;
+
+  constructor(maxSamples = MAX_TELEMETRY_SAMPLES) {
+    this.maxSamples = maxSamples;
+  }
+
+  recordTick(tick: number, time: number, players: Player[]) {
+    if (tick % this.sampleInterval !== 0) return;
+    for (const p of players) {
+      const alive = p.alive !== false;
+      this.samples.push({
+        tick,
+        time,
+        playerId: p.id,
+        x: p.position.x,
+        y: p.position.y,
+        z: p.position.z,
+        vx: p.velocity.x,
+        vy: p.velocity.y,
+        vz: p.velocity.z,
+        targetFoodId: alive ? p.targetFoodId ?? null : null,
+        score: p.score,
+        alive,
+      });
+    }
+    if (this.samples.length > this.maxSamples) {
+      this.sampleInterval *= 2;
+      this.samples = this.samples.filter(sample => sample.tick % this.sampleInterval === 0);
+    }
+  }
+
+  recordConsumptions(events: ConsumptionEvent[]) {
+    for (const event of events) {
+      if (this.consumptions.length < MAX_TELEMETRY_CONSUMPTIONS) this.consumptions.push(event);
+      else this.droppedConsumptions += 1;
+    }
+  }
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(6)));
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Header row plus one line per row; empty cells stand for null
+export function toCsv<T>(rows: T[], columns: (keyof T)[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) lines.push(columns.map(column => csvValue(row[column])).join(','));
+  return lines.join('\n') + '\n';
+}
+
+export function samplesToCsv(recorder: TelemetryRecorder): string {
+  return toCsv(recorder.samples, PLAYER_SAMPLE_COLUMNS);
+}
+
+export function consumptionsToCsv(recorder: TelemetryRecorder): string {
+  return toCsv(recorder.consumptions, CONSUMPTION_COLUMNS);
+}
+
+// Everything in one document, with the race settings so a run can be matched to its seed
+export function telemetryToJson(recorder: TelemetryRecorder, config: SimulationConfig): string {
+  return JSON.stringify({
+    version: 1,
+    config,
+    sampleInterval: recorder.sampleInterval,
+    droppedConsumptions: recorder.droppedConsumptions,
+    samples: recorder.samples,
+    consumptions: recorder.consumptions,
+  });
+}